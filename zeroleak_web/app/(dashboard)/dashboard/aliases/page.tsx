@@ -12,6 +12,7 @@ import dynamic from 'next/dynamic';
 // Dynamic imports for modals
 const ReplaceAliasModal = dynamic(() => import('@/components/ReplaceAliasModal'), { ssr: false });
 const MerchantAliasHistory = dynamic(() => import('@/components/MerchantAliasHistory'), { ssr: false });
+const AliasDestinationsModal = dynamic(() => import('@/components/AliasDestinationsModal'), { ssr: false });
 
 interface Alias {
   id: string;
@@ -19,6 +20,8 @@ interface Alias {
   merchant?: string;
   merchantGroup?: string;
   status: string;
+  deliveryMode: string;
+  remoteImages: string;
   createdAt: string;
   eventCount: number;
   receiptCount: number;
@@ -32,6 +35,7 @@ export default function AliasesPage() {
   const [showCreateForm, setShowCreateForm] = useState(false);
   const [selectedAliasForReplace, setSelectedAliasForReplace] = useState<Alias | null>(null);
   const [selectedMerchantForHistory, setSelectedMerchantForHistory] = useState<string | null>(null);
+  const [selectedAliasForForwarding, setSelectedAliasForForwarding] = useState<Alias | null>(null);
   const [createForm, setCreateForm] = useState({
     merchant: '',
     localPart: '',
@@ -365,6 +369,14 @@ export default function AliasesPage() {
                         🔄 Replace
                       </button>
                     )}
+                    {alias.status === 'ACTIVE' && (
+                      <button
+                        onClick={() => setSelectedAliasForForwarding(alias)}
+                        className="text-gray-600 hover:text-gray-900"
+                      >
+                        📬 Forwarding
+                      </button>
+                    )}
                     {alias.status === 'ACTIVE' && !alias.breachDetected && (
                       <button
                         onClick={() => killAlias(alias.id)}
@@ -430,6 +442,16 @@ export default function AliasesPage() {
         />
       )}
 
+      {selectedAliasForForwarding && (
+        <AliasDestinationsModal
+          alias={selectedAliasForForwarding}
+          onClose={() => {
+            fetchAliases();
+            setSelectedAliasForForwarding(null);
+          }}
+        />
+      )}
+
       {selectedMerchantForHistory && (
         <MerchantAliasHistory
           merchantGroup={selectedMerchantForHistory}
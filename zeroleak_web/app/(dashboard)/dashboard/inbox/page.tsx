@@ -16,13 +16,17 @@ interface Email {
     merchant?: string;
   };
   from: string;
+  tag?: string;
   subject?: string;
   preview?: string;
   receivedAt: string;
   read: boolean;
   isSpam: boolean;
+  senderVerified?: boolean;
   status: string;
+  nextRetryAt?: string | null;
   hasAttachments?: boolean;
+  trackersRemoved?: number;
 }
 
 interface SearchFilters {
@@ -53,6 +57,7 @@ export default function InboxPage() {
     isRead: null,
   });
   const [isSearching, setIsSearching] = useState(false);
+  const [retrying, setRetrying] = useState<string | null>(null);
 
   useEffect(() => {
     fetchEmails();
@@ -65,6 +70,7 @@ export default function InboxPage() {
       const params = new URLSearchParams();
       if (filter === 'unread') params.append('unreadOnly', 'true');
       if (filter === 'spam') params.append('status', 'SPAM');
+      if (filter === 'failed') params.append('status', 'FAILED');
 
       const response = await fetch(`/api/inbox?${params}`, {
         headers: {
@@ -110,6 +116,39 @@ export default function InboxPage() {
     }
   };
 
+  const retryForward = async (emailId: string) => {
+    try {
+      setRetrying(emailId);
+      const token = await getToken();
+      const response = await fetch(`/api/inbox/${emailId}/retry`, {
+        method: 'POST',
+        headers: {
+          'Authorization': `Bearer ${token}`,
+        },
+      });
+      const data = await response.json();
+
+      if (!response.ok) {
+        alert(data.error || 'Failed to retry');
+        return;
+      }
+
+      setEmails(emails.map(email =>
+        email.id === emailId
+          ? { ...email, status: data.status, nextRetryAt: data.nextRetryAt }
+          : email
+      ));
+
+      if (!data.success) {
+        alert(`Forwarding failed again: ${data.error}`);
+      }
+    } catch (error) {
+      console.error('Error retrying email:', error);
+    } finally {
+      setRetrying(null);
+    }
+  };
+
   const clearSearch = () => {
     setSearchFilters({
       query: '',
@@ -325,6 +364,16 @@ export default function InboxPage() {
         >
           🚫 Spam
         </button>
+        <button
+          onClick={() => { setFilter('failed'); fetchEmails(); }}
+          className={`px-5 py-2.5 rounded-lg font-medium transition shadow-sm ${
+            filter === 'failed'
+              ? 'bg-gradient-to-r from-blue-600 to-indigo-600 text-white shadow-lg transform scale-105'
+              : 'bg-white border-2 border-gray-300 text-gray-700 hover:bg-gray-50 hover:border-orange-300'
+          }`}
+        >
+          ⚠️ Failed
+        </button>
       </div>
 
       {/* Email List */}
@@ -358,11 +407,32 @@ export default function InboxPage() {
                     <p className={`text-sm ${email.read ? 'text-gray-700' : 'font-bold text-gray-900'} truncate group-hover:text-blue-700 transition`}>
                       {email.from}
                     </p>
+                    {email.senderVerified && (
+                      <span className="inline-flex items-center px-2 py-0.5 text-xs font-medium bg-green-100 text-green-800 rounded-full" title="Sender passed SPF/DKIM/DMARC authentication">
+                        ✓ Verified sender
+                      </span>
+                    )}
                     {email.isSpam && (
                       <span className="px-2.5 py-0.5 text-xs font-bold bg-gradient-to-r from-red-500 to-red-600 text-white rounded-full shadow-sm">
                         SPAM
                       </span>
                     )}
+                    {email.status === 'FAILED' && (
+                      <span
+                        className="px-2.5 py-0.5 text-xs font-bold bg-orange-100 text-orange-800 rounded-full"
+                        title={email.nextRetryAt ? `Next retry ${new Date(email.nextRetryAt).toLocaleString()}` : 'No more automatic retries'}
+                      >
+                        NOT FORWARDED
+                      </span>
+                    )}
+                    {!!email.trackersRemoved && (
+                      <span
+                        className="inline-flex items-center px-2 py-0.5 text-xs font-medium bg-slate-100 text-slate-700 rounded-full"
+                        title="Tracking pixels and beacons removed before this message was shown or forwarded"
+                      >
+                        🛡️ {email.trackersRemoved} tracker{email.trackersRemoved === 1 ? '' : 's'} removed
+                      </span>
+                    )}
                     {email.hasAttachments && (
                       <span className="text-gray-400" title="Has attachments">
                         📎
@@ -379,6 +449,11 @@ export default function InboxPage() {
                     <span className="inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium bg-purple-100 text-purple-800">
                       {email.alias.email}
                     </span>
+                    {email.tag && (
+                      <span className="inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium bg-amber-100 text-amber-800" title="Plus tag">
+                        +{email.tag}
+                      </span>
+                    )}
                     {email.alias.merchant && (
                       <span className="inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium bg-blue-100 text-blue-800">
                         🏪 {email.alias.merchant}
@@ -393,6 +468,15 @@ export default function InboxPage() {
                   <p className="text-xs text-gray-400 mt-1">
                     {new Date(email.receivedAt).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}
                   </p>
+                  {email.status === 'FAILED' && (
+                    <button
+                      onClick={(e) => { e.preventDefault(); retryForward(email.id); }}
+                      disabled={retrying === email.id}
+                      className="mt-2 px-3 py-1 text-xs font-medium bg-orange-600 text-white rounded-md hover:bg-orange-700 disabled:opacity-50 transition"
+                    >
+                      {retrying === email.id ? 'Retrying...' : 'Retry now'}
+                    </button>
+                  )}
                 </div>
               </div>
             </Link>
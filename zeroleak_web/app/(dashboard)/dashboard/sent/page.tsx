@@ -0,0 +1,247 @@
+/**
+ * Sent Page
+ * Compose new messages from an alias and view what was sent
+ */
+
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import { useAuth } from '@clerk/nextjs';
+
+interface Alias {
+  id: string;
+  email: string;
+  merchant?: string;
+}
+
+interface SentMessage {
+  id: string;
+  alias: {
+    email: string;
+    merchant?: string;
+  };
+  to: string;
+  subject: string;
+  textBody: string;
+  status: 'SENDING' | 'SENT' | 'FAILED';
+  errorMessage?: string;
+  sentAt: string;
+}
+
+interface SendUsage {
+  sentToday: number;
+  dailyLimit: number;
+}
+
+export default function SentPage() {
+  const { getToken } = useAuth();
+  const [messages, setMessages] = useState<SentMessage[]>([]);
+  const [aliases, setAliases] = useState<Alias[]>([]);
+  const [usage, setUsage] = useState<SendUsage | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [sending, setSending] = useState(false);
+  const [form, setForm] = useState({ aliasId: '', to: '', subject: '', textBody: '' });
+
+  const fetchSent = useCallback(async () => {
+    try {
+      const token = await getToken();
+      const response = await fetch('/api/sent', {
+        headers: {
+          'Authorization': `Bearer ${token}`,
+        },
+      });
+      const data = await response.json();
+      setMessages(data.messages || []);
+      setUsage(data.usage || null);
+    } catch (error) {
+      console.error('Error fetching sent messages:', error);
+    } finally {
+      setLoading(false);
+    }
+  }, [getToken]);
+
+  const fetchAliases = useCallback(async () => {
+    try {
+      const token = await getToken();
+      const response = await fetch('/api/alias?status=ACTIVE&limit=100', {
+        headers: {
+          'Authorization': `Bearer ${token}`,
+        },
+      });
+      const data = await response.json();
+      setAliases(data.aliases || []);
+      if (data.aliases?.length) {
+        setForm(current => current.aliasId ? current : { ...current, aliasId: data.aliases[0].id });
+      }
+    } catch (error) {
+      console.error('Error fetching aliases:', error);
+    }
+  }, [getToken]);
+
+  useEffect(() => {
+    fetchSent();
+    fetchAliases();
+  }, [fetchSent, fetchAliases]);
+
+  const sendMessage = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setSending(true);
+    try {
+      const token = await getToken();
+      const response = await fetch('/api/compose', {
+        method: 'POST',
+        headers: {
+          'Authorization': `Bearer ${token}`,
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify(form),
+      });
+      const data = await response.json();
+
+      if (!response.ok) {
+        alert(data.details && typeof data.details === 'string' ? `${data.error}: ${data.details}` : data.error || 'Failed to send');
+      } else {
+        setForm({ ...form, to: '', subject: '', textBody: '' });
+      }
+
+      fetchSent();
+    } catch (error) {
+      console.error('Error sending message:', error);
+      alert('Failed to send. Please try again.');
+    } finally {
+      setSending(false);
+    }
+  };
+
+  const limitReached = usage !== null && usage.dailyLimit !== -1 && usage.sentToday >= usage.dailyLimit;
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center py-12">
+        <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-blue-600"></div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h1 className="text-3xl font-bold text-gray-900">Sent</h1>
+        <p className="mt-2 text-gray-600">
+          Contact a merchant from one of your aliases. They only ever see the alias.
+        </p>
+      </div>
+
+      {/* Composer */}
+      <form onSubmit={sendMessage} className="bg-white rounded-lg shadow p-6 space-y-4">
+        <div className="flex justify-between items-center">
+          <h2 className="text-lg font-semibold text-gray-900">New Message</h2>
+          {usage && (
+            <span className="text-sm text-gray-500">
+              {usage.dailyLimit === -1
+                ? `${usage.sentToday} sent today`
+                : `${usage.sentToday} / ${usage.dailyLimit} sent today`}
+            </span>
+          )}
+        </div>
+
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">From</label>
+          <select
+            value={form.aliasId}
+            onChange={(e) => setForm({ ...form, aliasId: e.target.value })}
+            required
+            className="block w-full px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+          >
+            {aliases.length === 0 && <option value="">No active aliases</option>}
+            {aliases.map(alias => (
+              <option key={alias.id} value={alias.id}>
+                {alias.email}{alias.merchant ? ` (${alias.merchant})` : ''}
+              </option>
+            ))}
+          </select>
+        </div>
+
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">To</label>
+          <input
+            type="email"
+            value={form.to}
+            onChange={(e) => setForm({ ...form, to: e.target.value })}
+            required
+            placeholder="support@merchant.com"
+            className="block w-full px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+          />
+        </div>
+
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">Subject</label>
+          <input
+            type="text"
+            value={form.subject}
+            onChange={(e) => setForm({ ...form, subject: e.target.value })}
+            required
+            className="block w-full px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+          />
+        </div>
+
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">Message</label>
+          <textarea
+            value={form.textBody}
+            onChange={(e) => setForm({ ...form, textBody: e.target.value })}
+            required
+            rows={8}
+            className="block w-full px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+          />
+        </div>
+
+        <div className="flex justify-end">
+          <button
+            type="submit"
+            disabled={sending || limitReached || aliases.length === 0}
+            className="px-6 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed transition font-medium"
+          >
+            {sending ? 'Sending...' : limitReached ? 'Daily limit reached' : 'Send'}
+          </button>
+        </div>
+      </form>
+
+      {/* Sent Messages */}
+      <div className="bg-white rounded-lg shadow divide-y divide-gray-200">
+        {messages.length === 0 ? (
+          <div className="px-6 py-12 text-center text-gray-500">
+            No messages sent yet
+          </div>
+        ) : (
+          messages.map(message => (
+            <div key={message.id} className="px-6 py-4">
+              <div className="flex items-start justify-between">
+                <div className="flex-1 min-w-0">
+                  <div className="flex items-center space-x-3">
+                    <p className="text-sm font-medium text-gray-900 truncate">
+                      To: {message.to}
+                    </p>
+                    {message.status === 'FAILED' && (
+                      <span className="px-2 py-0.5 text-xs font-bold bg-red-100 text-red-800 rounded-full" title={message.errorMessage}>
+                        FAILED
+                      </span>
+                    )}
+                  </div>
+                  <p className="text-sm text-gray-700 mt-1">{message.subject}</p>
+                  <p className="text-sm text-gray-500 mt-1 truncate">{message.textBody}</p>
+                  <span className="inline-flex items-center mt-2 px-2.5 py-0.5 rounded-full text-xs font-medium bg-purple-100 text-purple-800">
+                    {message.alias.email}
+                  </span>
+                </div>
+                <p className="ml-6 flex-shrink-0 text-xs text-gray-500">
+                  {new Date(message.sentAt).toLocaleString()}
+                </p>
+              </div>
+            </div>
+          ))
+        )}
+      </div>
+    </div>
+  );
+}
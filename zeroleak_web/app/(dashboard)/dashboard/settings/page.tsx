@@ -7,6 +7,10 @@
 
 import { useEffect, useState } from 'react';
 import { useAuth, useUser } from '@clerk/nextjs';
+import ForwardingDestinations from '@/components/ForwardingDestinations';
+import DigestSettings from '@/components/DigestSettings';
+import HeaderSettings from '@/components/HeaderSettings';
+import BannerSettings from '@/components/BannerSettings';
 
 interface SubscriptionTier {
   id: string;
@@ -173,6 +177,18 @@ export default function SettingsPage() {
         </div>
       </div>
 
+      {/* Forwarding Destinations */}
+      <ForwardingDestinations />
+
+      {/* Digests */}
+      <DigestSettings />
+
+      {/* Message Headers */}
+      <HeaderSettings />
+
+      {/* Forwarding Banner */}
+      <BannerSettings />
+
       {/* Security Settings */}
       <div className="bg-white rounded-lg shadow p-6">
         <h2 className="text-xl font-bold text-gray-900 mb-4">Security</h2>
@@ -41,6 +41,12 @@ export default function DashboardLayout({ children }: { children: ReactNode }) {
               >
                 📬 Inbox
               </Link>
+              <Link
+                href="/dashboard/sent"
+                className="text-gray-700 hover:text-indigo-600 hover:bg-indigo-50 px-3 py-2 rounded-lg text-sm font-semibold transition-all"
+              >
+                📤 Sent
+              </Link>
               <Link
                 href="/dashboard/receipts"
                 className="text-gray-700 hover:text-green-600 hover:bg-green-50 px-3 py-2 rounded-lg text-sm font-semibold transition-all"
@@ -84,6 +90,13 @@ export default function DashboardLayout({ children }: { children: ReactNode }) {
               >
                 📬
               </Link>
+              <Link
+                href="/dashboard/sent"
+                className="text-gray-700 hover:text-indigo-600 px-2 py-1 rounded font-semibold"
+                title="Sent"
+              >
+                📤
+              </Link>
               <Link
                 href="/dashboard/settings"
                 className="text-gray-700 hover:text-pink-600 px-2 py-1 rounded font-semibold"
@@ -0,0 +1,166 @@
+/**
+ * Dead-Letter Admin API
+ * Inspect inbound messages that exhausted their retries and put them back on the queue
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { auth } from '@clerk/nextjs/server';
+import prisma from '@/lib/prisma';
+import { InboundQueue } from '@/lib/services/inbound-queue';
+import { z } from 'zod';
+
+const querySchema = z.object({
+  includeRequeued: z.string().optional().transform(val => val === 'true'),
+  limit: z.string().optional().transform(val => parseInt(val || '50')),
+  offset: z.string().optional().transform(val => parseInt(val || '0')),
+});
+
+const requeueSchema = z.object({
+  id: z.string().cuid(),
+});
+
+/**
+ * GET /api/admin/dead-letters
+ * List dead-lettered inbound jobs (admin only)
+ */
+export async function GET(req: NextRequest) {
+  const { userId: clerkId } = await auth();
+
+  if (!clerkId) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  try {
+    const { searchParams } = new URL(req.url);
+    const params = querySchema.parse(Object.fromEntries(searchParams));
+
+    const user = await prisma.user.findUnique({
+      where: { clerkId },
+    });
+
+    if (!user) {
+      return NextResponse.json({ error: 'User not found' }, { status: 404 });
+    }
+
+    if (user.role !== 'ADMIN') {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+    }
+
+    const where = params.includeRequeued ? {} : { requeuedAt: null };
+
+    const [deadLetters, total] = await Promise.all([
+      prisma.inboundDeadLetter.findMany({
+        where,
+        orderBy: { failedAt: 'desc' },
+        take: params.limit,
+        skip: params.offset,
+      }),
+      prisma.inboundDeadLetter.count({ where }),
+    ]);
+
+    return NextResponse.json({
+      deadLetters: deadLetters.map(deadLetter => {
+        const payload = deadLetter.payload as { messageId?: string; from?: string; to?: string; subject?: string };
+        return {
+          id: deadLetter.id,
+          jobId: deadLetter.jobId,
+          source: deadLetter.source,
+          messageId: payload.messageId,
+          from: payload.from,
+          to: payload.to,
+          subject: payload.subject,
+          attempts: deadLetter.attempts,
+          lastError: deadLetter.lastError,
+          timings: deadLetter.timings,
+          failedAt: deadLetter.failedAt,
+          requeuedAt: deadLetter.requeuedAt,
+          requeuedJobId: deadLetter.requeuedJobId,
+        };
+      }),
+      pagination: {
+        total,
+        limit: params.limit,
+        offset: params.offset,
+        hasMore: params.offset + params.limit < total,
+      },
+    });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Invalid query parameters', details: error.issues },
+        { status: 400 }
+      );
+    }
+
+    console.error('Error fetching dead letters:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST /api/admin/dead-letters
+ * Requeue a dead-lettered job (admin only)
+ */
+export async function POST(req: NextRequest) {
+  const { userId: clerkId } = await auth();
+
+  if (!clerkId) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  try {
+    const body = await req.json();
+    const { id } = requeueSchema.parse(body);
+
+    const user = await prisma.user.findUnique({
+      where: { clerkId },
+    });
+
+    if (!user) {
+      return NextResponse.json({ error: 'User not found' }, { status: 404 });
+    }
+
+    if (user.role !== 'ADMIN') {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+    }
+
+    const job = await InboundQueue.requeue(id);
+
+    if (!job) {
+      return NextResponse.json(
+        { error: 'Dead letter not found or already requeued' },
+        { status: 404 }
+      );
+    }
+
+    await prisma.auditLog.create({
+      data: {
+        userId: user.id,
+        action: 'DEAD_LETTER_REQUEUED',
+        resource: `dead_letter:${id}`,
+        metadata: {
+          jobId: job.id,
+          source: job.source,
+        },
+      },
+    });
+
+    return NextResponse.json({ success: true, jobId: job.id });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Invalid request data', details: error.issues },
+        { status: 400 }
+      );
+    }
+
+    console.error('Error requeueing dead letter:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,118 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { auth } from '@clerk/nextjs/server'
+import { z } from 'zod'
+import prisma from '@/lib/prisma'
+
+/**
+ * @openapi
+ * /api/alias/delivery:
+ *   put:
+ *     summary: Set how an alias delivers mail
+ *     description: IMMEDIATE forwards each message as it arrives. HOURLY, DAILY and WEEKLY keep messages in the inbox and send one digest of them on that schedule.
+ *     tags:
+ *       - Aliases
+ *     security:
+ *       - BearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - aliasId
+ *               - deliveryMode
+ *             properties:
+ *               aliasId:
+ *                 type: string
+ *               deliveryMode:
+ *                 type: string
+ *                 enum: [IMMEDIATE, HOURLY, DAILY, WEEKLY]
+ *     responses:
+ *       200:
+ *         description: Delivery mode updated
+ *       400:
+ *         description: Invalid request
+ *       401:
+ *         description: Unauthorized
+ *       404:
+ *         description: Alias not found
+ */
+
+const deliveryModeSchema = z.object({
+  aliasId: z.string().cuid(),
+  deliveryMode: z.enum(['IMMEDIATE', 'HOURLY', 'DAILY', 'WEEKLY']),
+})
+
+export async function PUT(request: NextRequest) {
+  try {
+    const { userId } = await auth()
+    if (!userId) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    const user = await prisma.user.findUnique({
+      where: { clerkId: userId },
+    })
+
+    if (!user) {
+      return NextResponse.json(
+        { error: 'User not found' },
+        { status: 404 }
+      )
+    }
+
+    const body = await request.json()
+    const { aliasId, deliveryMode } = deliveryModeSchema.parse(body)
+
+    const alias = await prisma.alias.findFirst({
+      where: { id: aliasId, userId: user.id },
+    })
+
+    if (!alias) {
+      return NextResponse.json(
+        { error: 'Alias not found' },
+        { status: 404 }
+      )
+    }
+
+    // Messages already held stay held; the next digest run sends them even when switching back to IMMEDIATE
+    await prisma.$transaction([
+      prisma.alias.update({
+        where: { id: aliasId },
+        data: { deliveryMode },
+      }),
+      prisma.auditLog.create({
+        data: {
+          userId: user.id,
+          action: 'alias.delivery_mode_updated',
+          resource: aliasId,
+          metadata: {
+            email: `${alias.localPart}@${alias.domain}`,
+            from: alias.deliveryMode,
+            to: deliveryMode,
+          },
+        },
+      }),
+    ])
+
+    return NextResponse.json({ aliasId, deliveryMode })
+  } catch (error) {
+    console.error('Error updating alias delivery mode:', error)
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Invalid request data', details: error.issues },
+        { status: 400 }
+      )
+    }
+
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
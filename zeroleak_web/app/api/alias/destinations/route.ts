@@ -0,0 +1,231 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { auth } from '@clerk/nextjs/server'
+import { z } from 'zod'
+import prisma from '@/lib/prisma'
+import { ForwardingDestinations } from '@/lib/services/forwarding-destinations'
+
+/**
+ * @openapi
+ * /api/alias/destinations:
+ *   get:
+ *     summary: List the forwarding destinations of an alias
+ *     description: Returns the destinations linked to the alias and the verified addresses mail is actually forwarded to
+ *     tags:
+ *       - Aliases
+ *     security:
+ *       - BearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: aliasId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Alias destinations
+ *       401:
+ *         description: Unauthorized
+ *       404:
+ *         description: Alias not found
+ */
+
+const aliasDestinationsSchema = z.object({
+  aliasId: z.string().cuid(),
+  destinationIds: z.array(z.string().cuid()).min(1).max(ForwardingDestinations.MAX_PER_USER),
+})
+
+export async function GET(request: NextRequest) {
+  try {
+    const { userId } = await auth()
+    if (!userId) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    const user = await prisma.user.findUnique({
+      where: { clerkId: userId },
+    })
+
+    if (!user) {
+      return NextResponse.json(
+        { error: 'User not found' },
+        { status: 404 }
+      )
+    }
+
+    const { searchParams } = new URL(request.url)
+    const aliasId = searchParams.get('aliasId')
+
+    const alias = aliasId
+      ? await prisma.alias.findFirst({
+          where: { id: aliasId, userId: user.id },
+          include: {
+            destinations: {
+              include: { destination: true },
+              orderBy: { createdAt: 'asc' },
+            },
+          },
+        })
+      : null
+
+    if (!alias) {
+      return NextResponse.json(
+        { error: 'Alias not found' },
+        { status: 404 }
+      )
+    }
+
+    return NextResponse.json({
+      aliasId: alias.id,
+      email: `${alias.localPart}@${alias.domain}`,
+      destinations: alias.destinations.map(({ destination }) => ({
+        id: destination.id,
+        email: destination.email,
+        verified: !!destination.verifiedAt,
+      })),
+      forwardsTo: await ForwardingDestinations.resolve(alias),
+    })
+  } catch (error) {
+    console.error('Error fetching alias destinations:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
+
+/**
+ * @openapi
+ * /api/alias/destinations:
+ *   put:
+ *     summary: Set the forwarding destinations of an alias
+ *     description: Replaces the destinations the alias forwards to. Every destination must be one of the user's verified destinations.
+ *     tags:
+ *       - Aliases
+ *     security:
+ *       - BearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - aliasId
+ *               - destinationIds
+ *             properties:
+ *               aliasId:
+ *                 type: string
+ *               destinationIds:
+ *                 type: array
+ *                 items:
+ *                   type: string
+ *     responses:
+ *       200:
+ *         description: Destinations updated
+ *       400:
+ *         description: Invalid request or unverified destination
+ *       401:
+ *         description: Unauthorized
+ *       404:
+ *         description: Alias or destination not found
+ */
+export async function PUT(request: NextRequest) {
+  try {
+    const { userId } = await auth()
+    if (!userId) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    const user = await prisma.user.findUnique({
+      where: { clerkId: userId },
+    })
+
+    if (!user) {
+      return NextResponse.json(
+        { error: 'User not found' },
+        { status: 404 }
+      )
+    }
+
+    const body = await request.json()
+    const { aliasId, destinationIds } = aliasDestinationsSchema.parse(body)
+    const ids = [...new Set(destinationIds)]
+
+    const alias = await prisma.alias.findFirst({
+      where: { id: aliasId, userId: user.id },
+    })
+
+    if (!alias) {
+      return NextResponse.json(
+        { error: 'Alias not found' },
+        { status: 404 }
+      )
+    }
+
+    const destinations = await prisma.forwardingDestination.findMany({
+      where: { id: { in: ids }, userId: user.id },
+    })
+
+    if (destinations.length !== ids.length) {
+      return NextResponse.json(
+        { error: 'Destination not found' },
+        { status: 404 }
+      )
+    }
+
+    const unverified = destinations.filter(destination => !destination.verifiedAt)
+    if (unverified.length > 0) {
+      return NextResponse.json(
+        { error: 'Destination is not verified', details: unverified.map(destination => destination.email) },
+        { status: 400 }
+      )
+    }
+
+    await prisma.$transaction([
+      prisma.aliasDestination.deleteMany({ where: { aliasId } }),
+      prisma.aliasDestination.createMany({
+        data: ids.map(destinationId => ({ aliasId, destinationId })),
+      }),
+      prisma.auditLog.create({
+        data: {
+          userId: user.id,
+          action: 'alias.destinations_updated',
+          resource: aliasId,
+          metadata: {
+            email: `${alias.localPart}@${alias.domain}`,
+            destinations: destinations.map(destination => destination.email),
+          },
+        },
+      }),
+    ])
+
+    return NextResponse.json({
+      aliasId,
+      destinations: destinations.map(destination => ({
+        id: destination.id,
+        email: destination.email,
+        verified: true,
+      })),
+    })
+  } catch (error) {
+    console.error('Error updating alias destinations:', error)
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Invalid request data', details: error.issues },
+        { status: 400 }
+      )
+    }
+
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
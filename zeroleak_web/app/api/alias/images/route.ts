@@ -0,0 +1,117 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { auth } from '@clerk/nextjs/server'
+import { z } from 'zod'
+import prisma from '@/lib/prisma'
+
+/**
+ * @openapi
+ * /api/alias/images:
+ *   put:
+ *     summary: Set how forwarded mail from an alias loads remote images
+ *     description: PROXY loads them through the ZeroLeak image proxy, so senders can't see when or where mail is read. BLOCK removes them. ORIGINAL leaves them as sent. Known trackers are removed in every mode.
+ *     tags:
+ *       - Aliases
+ *     security:
+ *       - BearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - aliasId
+ *               - remoteImages
+ *             properties:
+ *               aliasId:
+ *                 type: string
+ *               remoteImages:
+ *                 type: string
+ *                 enum: [PROXY, BLOCK, ORIGINAL]
+ *     responses:
+ *       200:
+ *         description: Remote image policy updated
+ *       400:
+ *         description: Invalid request
+ *       401:
+ *         description: Unauthorized
+ *       404:
+ *         description: Alias not found
+ */
+
+const remoteImagesSchema = z.object({
+  aliasId: z.string().cuid(),
+  remoteImages: z.enum(['PROXY', 'BLOCK', 'ORIGINAL']),
+})
+
+export async function PUT(request: NextRequest) {
+  try {
+    const { userId } = await auth()
+    if (!userId) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    const user = await prisma.user.findUnique({
+      where: { clerkId: userId },
+    })
+
+    if (!user) {
+      return NextResponse.json(
+        { error: 'User not found' },
+        { status: 404 }
+      )
+    }
+
+    const body = await request.json()
+    const { aliasId, remoteImages } = remoteImagesSchema.parse(body)
+
+    const alias = await prisma.alias.findFirst({
+      where: { id: aliasId, userId: user.id },
+    })
+
+    if (!alias) {
+      return NextResponse.json(
+        { error: 'Alias not found' },
+        { status: 404 }
+      )
+    }
+
+    await prisma.$transaction([
+      prisma.alias.update({
+        where: { id: aliasId },
+        data: { remoteImages },
+      }),
+      prisma.auditLog.create({
+        data: {
+          userId: user.id,
+          action: 'alias.remote_images_updated',
+          resource: aliasId,
+          metadata: {
+            email: `${alias.localPart}@${alias.domain}`,
+            from: alias.remoteImages,
+            to: remoteImages,
+          },
+        },
+      }),
+    ])
+
+    return NextResponse.json({ aliasId, remoteImages })
+  } catch (error) {
+    console.error('Error updating alias remote image policy:', error)
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Invalid request data', details: error.issues },
+        { status: 400 }
+      )
+    }
+
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
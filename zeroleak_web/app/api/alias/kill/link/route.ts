@@ -0,0 +1,157 @@
+import { NextRequest, NextResponse } from 'next/server'
+import prisma from '@/lib/prisma'
+import { ForwardBanner } from '@/lib/services/forward-banner'
+
+/**
+ * @openapi
+ * /api/alias/kill/link:
+ *   get:
+ *     summary: Confirmation page for the "kill this alias" link in forwarded mail
+ *     description: Public; the signed link alone authorizes it. Opening the link only shows a button, so mail scanners that follow links can't kill the alias.
+ *     tags:
+ *       - Aliases
+ *     parameters:
+ *       - in: query
+ *         name: alias
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: sig
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: HTML confirmation page
+ *       403:
+ *         description: Invalid link
+ *   post:
+ *     summary: Kill the alias from a signed banner link
+ *     tags:
+ *       - Aliases
+ *     responses:
+ *       200:
+ *         description: HTML page confirming the alias was killed
+ *       403:
+ *         description: Invalid link
+ *       404:
+ *         description: Alias not found
+ */
+
+export async function GET(request: NextRequest) {
+  const alias = await findAlias(request)
+  if (!alias) {
+    return page('Invalid link', 'This link is invalid or has expired.', 403)
+  }
+
+  const email = `${alias.localPart}@${alias.domain}`
+
+  if (alias.status === 'KILLED') {
+    return page('Alias already killed', `${email} no longer receives mail.`)
+  }
+
+  return page(
+    'Kill this alias?',
+    `${email} will stop receiving mail right away. This can't be undone.`,
+    200,
+    true
+  )
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const alias = await findAlias(request)
+    if (!alias) {
+      return page('Invalid link', 'This link is invalid or has expired.', 403)
+    }
+
+    const email = `${alias.localPart}@${alias.domain}`
+
+    if (alias.status !== 'KILLED') {
+      await prisma.$transaction([
+        prisma.alias.update({
+          where: { id: alias.id },
+          data: {
+            status: 'KILLED',
+            killedAt: new Date(),
+          },
+        }),
+        prisma.relayEvent.create({
+          data: {
+            aliasId: alias.id,
+            type: 'BLOCKED',
+            metadata: {
+              action: 'alias_killed',
+              reason: 'user_requested',
+              via: 'banner_link',
+            },
+          },
+        }),
+        prisma.auditLog.create({
+          data: {
+            userId: alias.userId,
+            action: 'alias.killed',
+            resource: alias.id,
+            metadata: {
+              email,
+              via: 'banner_link',
+            },
+          },
+        }),
+      ])
+    }
+
+    return page('Alias killed', `${email} no longer receives mail.`)
+  } catch (error) {
+    console.error('Error killing alias from link:', error)
+    return page('Something went wrong', 'The alias could not be killed. Please try again.', 500)
+  }
+}
+
+async function findAlias(request: NextRequest) {
+  const aliasId = request.nextUrl.searchParams.get('alias')
+  const signature = request.nextUrl.searchParams.get('sig')
+
+  if (!aliasId || !signature || !ForwardBanner.verifyKillLink(aliasId, signature)) {
+    return null
+  }
+
+  return prisma.alias.findUnique({
+    where: { id: aliasId },
+  })
+}
+
+// A bare page: the link is usually opened from a mail client, not signed in
+function page(title: string, message: string, status = 200, confirm = false) {
+  const escape = (value: string) => value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+
+  const html = `<!DOCTYPE html>
+<html>
+<head>
+  <meta charset="utf-8">
+  <meta name="viewport" content="width=device-width, initial-scale=1">
+  <title>${escape(title)} · ZeroLeak</title>
+</head>
+<body style="font-family: sans-serif; max-width: 480px; margin: 80px auto; padding: 0 16px; color: #111827;">
+  <h1 style="font-size: 22px;">${escape(title)}</h1>
+  <p style="color: #4b5563;">${escape(message)}</p>
+  ${confirm ? `<form method="post">
+    <button type="submit" style="background: #dc2626; color: #fff; border: 0; border-radius: 8px; padding: 10px 18px; font-size: 15px; cursor: pointer;">Kill alias</button>
+  </form>` : ''}
+</body>
+</html>`
+
+  return new NextResponse(html, {
+    status,
+    headers: {
+      'Content-Type': 'text/html; charset=utf-8',
+      'Referrer-Policy': 'no-referrer',
+      'Cache-Control': 'no-store',
+    },
+  })
+}
@@ -46,6 +46,7 @@ export async function POST(req: NextRequest) {
         id: oldAliasId,
         userId: user.id,
       },
+      include: { destinations: true },
     });
 
     if (!oldAlias) {
@@ -81,6 +82,10 @@ export async function POST(req: NextRequest) {
         decoyToken,
         replacesId: oldAlias.id,
         notes,
+        // The replacement forwards wherever the old alias did
+        destinations: {
+          create: oldAlias.destinations.map(link => ({ destinationId: link.destinationId })),
+        },
       },
     });
 
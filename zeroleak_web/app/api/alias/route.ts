@@ -3,6 +3,7 @@ import { auth } from '@clerk/nextjs/server'
 import { z } from 'zod'
 import prisma from '@/lib/prisma'
 import { randomBytes } from 'crypto'
+import { ReverseAlias } from '@/lib/services/reverse-alias'
 
 /**
  * @openapi
@@ -70,7 +71,9 @@ import { randomBytes } from 'crypto'
 
 const createAliasSchema = z.object({
   merchant: z.string().min(1).max(255),
-  localPart: z.string().min(3).max(64).regex(/^[a-z0-9-]+$/).optional(),
+  localPart: z.string().min(3).max(64).regex(/^[a-z0-9-]+$/)
+    .refine(value => value !== ReverseAlias.LOCAL_PART, 'This address is reserved')
+    .optional(),
   domain: z.string().optional(),
   enableDecoy: z.boolean().default(true),
 })
@@ -289,6 +292,8 @@ export async function GET(request: NextRequest) {
         email: `${alias.localPart}@${alias.domain}`,
         merchant: alias.merchant,
         status: alias.status,
+        deliveryMode: alias.deliveryMode,
+        remoteImages: alias.remoteImages,
         eventCount: alias._count.relayEvents,
         receiptCount: alias._count.receiptTags,
         createdAt: alias.createdAt,
@@ -0,0 +1,231 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { auth } from '@clerk/nextjs/server'
+import { z } from 'zod'
+import prisma from '@/lib/prisma'
+
+/**
+ * @openapi
+ * /api/alias/tags:
+ *   get:
+ *     summary: List plus tags for an alias
+ *     description: Returns every tag seen on alias+tag@domain deliveries, with message counts and block state
+ *     tags:
+ *       - Aliases
+ *     security:
+ *       - BearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: aliasId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: List of tags
+ *       401:
+ *         description: Unauthorized
+ *       404:
+ *         description: Alias not found
+ */
+
+const tagRuleSchema = z.object({
+  aliasId: z.string().cuid(),
+  tag: z.string().min(1).max(64).transform(val => val.toLowerCase()),
+  blocked: z.boolean(),
+})
+
+export async function GET(request: NextRequest) {
+  try {
+    const { userId } = await auth()
+    if (!userId) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    const user = await prisma.user.findUnique({
+      where: { clerkId: userId },
+    })
+
+    if (!user) {
+      return NextResponse.json(
+        { error: 'User not found' },
+        { status: 404 }
+      )
+    }
+
+    const { searchParams } = new URL(request.url)
+    const aliasId = searchParams.get('aliasId')
+
+    const alias = aliasId
+      ? await prisma.alias.findFirst({
+          where: { id: aliasId, userId: user.id },
+          include: { tagRules: true },
+        })
+      : null
+
+    if (!alias) {
+      return NextResponse.json(
+        { error: 'Alias not found' },
+        { status: 404 }
+      )
+    }
+
+    const counts = await prisma.emailMessage.groupBy({
+      by: ['tag'],
+      where: {
+        aliasId: alias.id,
+        tag: { not: null },
+      },
+      _count: { _all: true },
+      _max: { receivedAt: true },
+    })
+
+    const tags = new Map<string, { tag: string; messageCount: number; lastReceivedAt: Date | null; blocked: boolean }>()
+
+    for (const count of counts) {
+      tags.set(count.tag!, {
+        tag: count.tag!,
+        messageCount: count._count._all,
+        lastReceivedAt: count._max.receivedAt,
+        blocked: false,
+      })
+    }
+
+    // Rules can exist for tags that haven't received mail yet
+    for (const rule of alias.tagRules) {
+      const existing = tags.get(rule.tag)
+      tags.set(rule.tag, {
+        tag: rule.tag,
+        messageCount: existing?.messageCount || 0,
+        lastReceivedAt: existing?.lastReceivedAt || null,
+        blocked: rule.blocked,
+      })
+    }
+
+    return NextResponse.json({
+      aliasId: alias.id,
+      email: `${alias.localPart}@${alias.domain}`,
+      tags: [...tags.values()].sort((a, b) => b.messageCount - a.messageCount),
+    })
+  } catch (error) {
+    console.error('Error fetching alias tags:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
+
+/**
+ * @openapi
+ * /api/alias/tags:
+ *   post:
+ *     summary: Block or unblock a plus tag
+ *     description: Blocking a tag rejects mail to alias+tag@domain while the alias keeps working
+ *     tags:
+ *       - Aliases
+ *     security:
+ *       - BearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - aliasId
+ *               - tag
+ *               - blocked
+ *             properties:
+ *               aliasId:
+ *                 type: string
+ *               tag:
+ *                 type: string
+ *                 example: "newsletter"
+ *               blocked:
+ *                 type: boolean
+ *     responses:
+ *       200:
+ *         description: Tag rule updated
+ *       401:
+ *         description: Unauthorized
+ *       404:
+ *         description: Alias not found
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const { userId } = await auth()
+    if (!userId) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    const user = await prisma.user.findUnique({
+      where: { clerkId: userId },
+    })
+
+    if (!user) {
+      return NextResponse.json(
+        { error: 'User not found' },
+        { status: 404 }
+      )
+    }
+
+    const body = await request.json()
+    const { aliasId, tag, blocked } = tagRuleSchema.parse(body)
+
+    const alias = await prisma.alias.findFirst({
+      where: { id: aliasId, userId: user.id },
+    })
+
+    if (!alias) {
+      return NextResponse.json(
+        { error: 'Alias not found' },
+        { status: 404 }
+      )
+    }
+
+    const rule = await prisma.aliasTagRule.upsert({
+      where: { aliasId_tag: { aliasId, tag } },
+      create: { aliasId, tag, blocked },
+      update: { blocked },
+    })
+
+    await prisma.auditLog.create({
+      data: {
+        userId: user.id,
+        action: blocked ? 'alias.tag_blocked' : 'alias.tag_unblocked',
+        resource: aliasId,
+        metadata: {
+          email: `${alias.localPart}+${tag}@${alias.domain}`,
+          tag,
+        },
+      },
+    })
+
+    return NextResponse.json({
+      aliasId,
+      tag: rule.tag,
+      blocked: rule.blocked,
+      email: `${alias.localPart}+${rule.tag}@${alias.domain}`,
+    })
+  } catch (error) {
+    console.error('Error updating alias tag:', error)
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Invalid request data', details: error.issues },
+        { status: 400 }
+      )
+    }
+
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
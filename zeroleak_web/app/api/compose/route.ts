@@ -0,0 +1,197 @@
+/**
+ * Compose API
+ * Start a new conversation from an alias: the message goes out as alias@domain,
+ * so the recipient never sees the user's real address
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { auth } from '@clerk/nextjs/server';
+import prisma from '@/lib/prisma';
+import { z } from 'zod';
+import { EmailForwarder } from '@/lib/services/email-forwarder';
+import { HtmlSanitizer } from '@/lib/services/html-sanitizer';
+import { getDailySendLimit, getSendsToday } from '@/lib/subscriptions';
+
+const composeSchema = z.object({
+  aliasId: z.string().cuid(),
+  to: z.string().email().max(320),
+  subject: z.string().trim().min(1).max(998),
+  textBody: z.string().min(1).max(100_000),
+  htmlBody: z.string().max(500_000).optional(),
+});
+
+/**
+ * POST /api/compose
+ * Send a new message from one of the user's aliases
+ */
+export async function POST(req: NextRequest) {
+  const { userId: clerkId } = await auth();
+
+  if (!clerkId) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  try {
+    const body = await req.json();
+    const data = composeSchema.parse(body);
+
+    // Get user
+    const user = await prisma.user.findUnique({
+      where: { clerkId },
+    });
+
+    if (!user) {
+      return NextResponse.json({ error: 'User not found' }, { status: 404 });
+    }
+
+    // Verify alias belongs to user
+    const alias = await prisma.alias.findFirst({
+      where: {
+        id: data.aliasId,
+        userId: user.id,
+      },
+    });
+
+    if (!alias) {
+      return NextResponse.json({ error: 'Alias not found' }, { status: 404 });
+    }
+
+    if (alias.status !== 'ACTIVE') {
+      return NextResponse.json({ error: `Alias is ${alias.status}` }, { status: 409 });
+    }
+
+    const aliasEmail = `${alias.localPart}@${alias.domain}`;
+    const to = data.to.toLowerCase();
+
+    // Apply the tier's daily send limit. The send is reserved up front, with the user's
+    // row locked, so concurrent requests can't both take the last one.
+    const sendLimit = getDailySendLimit(user.role);
+    const reservation = await prisma.$transaction(async tx => {
+      await tx.$queryRaw`SELECT "id" FROM "users" WHERE "id" = ${user.id} FOR UPDATE`;
+
+      const sendsToday = await getSendsToday(user.id, tx);
+      if (sendLimit !== -1 && sendsToday >= sendLimit) return null;
+
+      const sent = await tx.sentMessage.create({
+        data: {
+          aliasId: alias.id,
+          userId: user.id,
+          toAddress: to,
+          subject: data.subject,
+          textBody: data.textBody,
+          htmlBody: data.htmlBody,
+          status: 'SENDING',
+        },
+      });
+
+      return { sent, sendsToday };
+    });
+
+    if (!reservation) {
+      return NextResponse.json(
+        {
+          error: 'Daily send limit reached',
+          limit: sendLimit,
+          upgrade: 'Upgrade your plan to send more messages per day',
+        },
+        { status: 429 }
+      );
+    }
+
+    let result;
+    try {
+      result = await EmailForwarder.forward({
+        from: aliasEmail,
+        to,
+        subject: data.subject,
+        textBody: data.textBody,
+        htmlBody: data.htmlBody ? HtmlSanitizer.sanitize(data.htmlBody).html : undefined,
+      });
+    } catch (error) {
+      console.error('Error sending email:', error);
+      result = {
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error',
+        provider: undefined,
+        messageId: undefined,
+      };
+    }
+
+    // A failed send is kept for the history, but no longer counts against the limit
+    const sentMessage = await prisma.$transaction(async tx => {
+      const sent = await tx.sentMessage.update({
+        where: { id: reservation.sent.id },
+        data: {
+          status: result.success ? 'SENT' : 'FAILED',
+          provider: result.provider,
+          messageId: result.messageId,
+          errorMessage: result.success ? undefined : result.error,
+        },
+      });
+
+      if (result.success) {
+        await tx.relayEvent.create({
+          data: {
+            aliasId: alias.id,
+            type: 'SENT',
+            fromAddress: aliasEmail,
+            toAddress: to,
+            subject: data.subject,
+            bodySnippet: data.textBody.substring(0, 200),
+            metadata: {
+              sentMessageId: sent.id,
+              messageId: result.messageId,
+              provider: result.provider,
+            },
+          },
+        });
+      }
+
+      await tx.auditLog.create({
+        data: {
+          userId: user.id,
+          action: result.success ? 'EMAIL_SENT' : 'EMAIL_SEND_FAILED',
+          resource: `alias:${alias.id}`,
+          metadata: {
+            sentMessageId: sent.id,
+            aliasEmail,
+            toAddress: to,
+            error: result.success ? undefined : result.error,
+          },
+        },
+      });
+
+      return sent;
+    });
+
+    if (!result.success) {
+      return NextResponse.json(
+        { error: 'Failed to send email', details: result.error, id: sentMessage.id },
+        { status: 502 }
+      );
+    }
+
+    return NextResponse.json({
+      id: sentMessage.id,
+      from: aliasEmail,
+      to,
+      subject: sentMessage.subject,
+      status: sentMessage.status,
+      sentAt: sentMessage.sentAt,
+      remainingToday: sendLimit === -1 ? -1 : sendLimit - reservation.sendsToday - 1,
+    }, { status: 201 });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Invalid request', details: error.issues },
+        { status: 400 }
+      );
+    }
+
+    console.error('Error composing email:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
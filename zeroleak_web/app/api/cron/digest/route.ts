@@ -0,0 +1,47 @@
+/**
+ * Digest Cron Job
+ * Sends the hourly, daily and weekly digests of messages held for digest-mode aliases
+ * This endpoint should be called by a cron service (Vercel Cron, etc.)
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { DigestMailer } from '@/lib/services/digest-mailer';
+
+// Stop starting new users with enough headroom to finish before the function timeout
+const TIME_BUDGET_MS = 45 * 1000;
+
+/**
+ * GET /api/cron/digest
+ * Send due digests
+ */
+export async function GET(req: NextRequest) {
+  // Verify cron secret to prevent unauthorized access
+  const authHeader = req.headers.get('authorization');
+  const cronSecret = process.env.CRON_SECRET;
+
+  if (cronSecret && authHeader !== `Bearer ${cronSecret}`) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  try {
+    const results = await DigestMailer.runDue({
+      limit: 100,
+      deadline: Date.now() + TIME_BUDGET_MS,
+    });
+
+    return NextResponse.json({
+      success: true,
+      timestamp: new Date().toISOString(),
+      results,
+    });
+  } catch (error) {
+    console.error('Digest cron job failed:', error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,47 @@
+/**
+ * Forward Retry Cron Job
+ * Retries forwarding of FAILED messages whose backoff has elapsed
+ * This endpoint should be called by a cron service (Vercel Cron, etc.)
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { ForwardRetry } from '@/lib/services/forward-retry';
+
+// Stop starting new attempts with enough headroom to finish before the function timeout
+const TIME_BUDGET_MS = 45 * 1000;
+
+/**
+ * GET /api/cron/forward-retry
+ * Retry due forwards
+ */
+export async function GET(req: NextRequest) {
+  // Verify cron secret to prevent unauthorized access
+  const authHeader = req.headers.get('authorization');
+  const cronSecret = process.env.CRON_SECRET;
+
+  if (cronSecret && authHeader !== `Bearer ${cronSecret}`) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  try {
+    const results = await ForwardRetry.runDue({
+      limit: 100,
+      deadline: Date.now() + TIME_BUDGET_MS,
+    });
+
+    return NextResponse.json({
+      success: true,
+      timestamp: new Date().toISOString(),
+      results,
+    });
+  } catch (error) {
+    console.error('Forward retry cron job failed:', error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,50 @@
+/**
+ * Inbound Worker Cron Job
+ * Drains the inbound queue: runs queued messages through the pipeline, retries
+ * failures with backoff and dead-letters jobs that keep failing
+ * This endpoint should be called by a cron service (Vercel Cron, etc.)
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { InboundQueue } from '@/lib/services/inbound-queue';
+
+// Stop claiming new jobs with enough headroom to finish before the function timeout
+const TIME_BUDGET_MS = 45 * 1000;
+
+/**
+ * GET /api/cron/inbound-worker
+ * Process due inbound jobs
+ */
+export async function GET(req: NextRequest) {
+  // Verify cron secret to prevent unauthorized access
+  const authHeader = req.headers.get('authorization');
+  const cronSecret = process.env.CRON_SECRET;
+
+  if (cronSecret && authHeader !== `Bearer ${cronSecret}`) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  try {
+    const results = await InboundQueue.work({
+      batchSize: 10,
+      deadline: Date.now() + TIME_BUDGET_MS,
+    });
+
+    const purged = await InboundQueue.purgeCompleted();
+
+    return NextResponse.json({
+      success: true,
+      timestamp: new Date().toISOString(),
+      results: { ...results, purged },
+    });
+  } catch (error) {
+    console.error('Inbound worker cron job failed:', error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      },
+      { status: 500 }
+    );
+  }
+}
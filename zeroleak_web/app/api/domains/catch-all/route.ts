@@ -0,0 +1,166 @@
+/**
+ * Domain Catch-All API
+ * Configure auto-creation of aliases for unknown local parts on verified custom domains
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { auth } from '@clerk/nextjs/server';
+import prisma from '@/lib/prisma';
+import { z } from 'zod';
+
+const updateSchema = z.object({
+  domainId: z.string().cuid(),
+  enabled: z.boolean().optional(),
+  pattern: z.string().max(64).regex(/^[a-z0-9._*-]+$/i).nullable().optional(),
+  dailyLimit: z.number().int().min(1).max(1000).optional(),
+});
+
+/**
+ * GET /api/domains/catch-all
+ * List the user's domains with their catch-all settings
+ */
+export async function GET() {
+  const { userId: clerkId } = await auth();
+
+  if (!clerkId) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  try {
+    const user = await prisma.user.findUnique({
+      where: { clerkId },
+    });
+
+    if (!user) {
+      return NextResponse.json({ error: 'User not found' }, { status: 404 });
+    }
+
+    const domains = await prisma.domain.findMany({
+      where: { userId: user.id },
+      orderBy: { createdAt: 'asc' },
+    });
+
+    const startOfDay = new Date();
+    startOfDay.setUTCHours(0, 0, 0, 0);
+
+    const createdToday = await prisma.alias.groupBy({
+      by: ['domain'],
+      where: {
+        domain: { in: domains.map(d => d.domain) },
+        autoCreated: true,
+        createdAt: { gte: startOfDay },
+      },
+      _count: { _all: true },
+    });
+
+    return NextResponse.json({
+      domains: domains.map(domain => ({
+        id: domain.id,
+        domain: domain.domain,
+        verified: domain.verified,
+        catchAll: {
+          enabled: domain.catchAllEnabled,
+          pattern: domain.catchAllPattern,
+          dailyLimit: domain.catchAllDailyLimit,
+          createdToday: createdToday.find(c => c.domain === domain.domain)?._count._all || 0,
+        },
+      })),
+    });
+  } catch (error) {
+    console.error('Error fetching catch-all settings:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * PATCH /api/domains/catch-all
+ * Update catch-all settings for a domain
+ */
+export async function PATCH(req: NextRequest) {
+  const { userId: clerkId } = await auth();
+
+  if (!clerkId) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  try {
+    const body = await req.json();
+    const params = updateSchema.parse(body);
+
+    const user = await prisma.user.findUnique({
+      where: { clerkId },
+    });
+
+    if (!user) {
+      return NextResponse.json({ error: 'User not found' }, { status: 404 });
+    }
+
+    const domain = await prisma.domain.findFirst({
+      where: {
+        id: params.domainId,
+        userId: user.id,
+      },
+    });
+
+    if (!domain) {
+      return NextResponse.json({ error: 'Domain not found' }, { status: 404 });
+    }
+
+    // Catch-all on an unverified domain would accept mail we can't prove is the user's
+    if (params.enabled && !domain.verified) {
+      return NextResponse.json(
+        { error: 'Domain must be verified before enabling catch-all' },
+        { status: 400 }
+      );
+    }
+
+    const updated = await prisma.domain.update({
+      where: { id: domain.id },
+      data: {
+        catchAllEnabled: params.enabled,
+        catchAllPattern: params.pattern === undefined ? undefined : params.pattern?.toLowerCase() || null,
+        catchAllDailyLimit: params.dailyLimit,
+      },
+    });
+
+    await prisma.auditLog.create({
+      data: {
+        userId: user.id,
+        action: 'DOMAIN_CATCH_ALL_UPDATED',
+        resource: `domain:${domain.id}`,
+        metadata: {
+          domain: domain.domain,
+          enabled: updated.catchAllEnabled,
+          pattern: updated.catchAllPattern,
+          dailyLimit: updated.catchAllDailyLimit,
+        },
+      },
+    });
+
+    return NextResponse.json({
+      id: updated.id,
+      domain: updated.domain,
+      catchAll: {
+        enabled: updated.catchAllEnabled,
+        pattern: updated.catchAllPattern,
+        dailyLimit: updated.catchAllDailyLimit,
+      },
+    });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Invalid request data', details: error.issues },
+        { status: 400 }
+      );
+    }
+
+    console.error('Error updating catch-all settings:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,139 @@
+/**
+ * Forwarding Banner API
+ * Where the banner goes in forwarded mail, its templates and language
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { auth } from '@clerk/nextjs/server';
+import prisma from '@/lib/prisma';
+import { z } from 'zod';
+import {
+  BANNER_LOCALES,
+  BANNER_VARIABLES,
+  ForwardBanner,
+  MAX_TEMPLATE_LENGTH,
+} from '@/lib/services/forward-banner';
+
+// Null (or empty) resets a template to the default for the locale
+const template = z.string().max(MAX_TEMPLATE_LENGTH)
+  .refine(val => ForwardBanner.unknownVariables(val).length === 0, {
+    message: `Unknown variable; use ${BANNER_VARIABLES.map(name => `{{${name}}}`).join(', ')}`,
+  })
+  .transform(val => val.trim() || null)
+  .nullable()
+  .optional();
+
+const updateSchema = z.object({
+  bannerPosition: z.enum(['TOP', 'BOTTOM', 'OFF']).optional(),
+  bannerHtml: template,
+  bannerText: template,
+  locale: z.enum(BANNER_LOCALES).optional(),
+});
+
+/**
+ * GET /api/forwarding/banner
+ * Banner settings, with the default templates for the user's language
+ */
+export async function GET() {
+  const { userId: clerkId } = await auth();
+
+  if (!clerkId) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  try {
+    const user = await prisma.user.findUnique({
+      where: { clerkId },
+    });
+
+    if (!user) {
+      return NextResponse.json({ error: 'User not found' }, { status: 404 });
+    }
+
+    return NextResponse.json(settingsResponse(user));
+  } catch (error) {
+    console.error('Error fetching banner settings:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * PATCH /api/forwarding/banner
+ * Update the banner position, language or templates
+ */
+export async function PATCH(req: NextRequest) {
+  const { userId: clerkId } = await auth();
+
+  if (!clerkId) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  try {
+    const body = await req.json();
+    const params = updateSchema.parse(body);
+
+    const user = await prisma.user.findUnique({
+      where: { clerkId },
+    });
+
+    if (!user) {
+      return NextResponse.json({ error: 'User not found' }, { status: 404 });
+    }
+
+    const updated = await prisma.user.update({
+      where: { id: user.id },
+      data: {
+        bannerPosition: params.bannerPosition,
+        bannerHtml: params.bannerHtml,
+        bannerText: params.bannerText,
+        locale: params.locale,
+      },
+    });
+
+    await prisma.auditLog.create({
+      data: {
+        userId: user.id,
+        action: 'BANNER_SETTINGS_UPDATED',
+        resource: 'forwarding:banner',
+        metadata: {
+          bannerPosition: updated.bannerPosition,
+          locale: updated.locale,
+          customHtml: updated.bannerHtml !== null,
+          customText: updated.bannerText !== null,
+        },
+      },
+    });
+
+    return NextResponse.json(settingsResponse(updated));
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Invalid request data', details: error.issues },
+        { status: 400 }
+      );
+    }
+
+    console.error('Error updating banner settings:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+function settingsResponse(user: { bannerPosition: string; bannerHtml: string | null; bannerText: string | null; locale: string }) {
+  const defaults = ForwardBanner.defaults(user.locale);
+
+  return {
+    bannerPosition: user.bannerPosition,
+    bannerHtml: user.bannerHtml,
+    bannerText: user.bannerText,
+    locale: user.locale,
+    defaults: { html: defaults.html, text: defaults.text },
+    variables: BANNER_VARIABLES,
+    locales: BANNER_LOCALES,
+  };
+}
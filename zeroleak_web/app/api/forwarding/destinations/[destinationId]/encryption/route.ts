@@ -0,0 +1,185 @@
+/**
+ * Destination Encryption API
+ * Set or remove the OpenPGP public key or S/MIME certificate that forwards to a
+ * destination are encrypted to
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { auth } from '@clerk/nextjs/server';
+import prisma from '@/lib/prisma';
+import { z } from 'zod';
+import { MailEncryption } from '@/lib/services/mail-encryption';
+
+interface RouteContext {
+  params: Promise<{ destinationId: string }>;
+}
+
+const encryptionSchema = z.object({
+  type: z.enum(['PGP', 'SMIME']),
+  key: z.string().min(1).max(100_000),
+});
+
+async function findDestination(clerkId: string, destinationId: string) {
+  const user = await prisma.user.findUnique({
+    where: { clerkId },
+  });
+
+  if (!user) return null;
+
+  const destination = await prisma.forwardingDestination.findFirst({
+    where: { id: destinationId, userId: user.id },
+  });
+
+  return destination ? { user, destination } : null;
+}
+
+/**
+ * PUT /api/forwarding/destinations/[destinationId]/encryption
+ * Upload a key or certificate; forwards to the destination are encrypted from now on
+ */
+export async function PUT(
+  req: NextRequest,
+  context: RouteContext
+) {
+  const { userId: clerkId } = await auth();
+
+  if (!clerkId) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  try {
+    const { destinationId } = await context.params;
+    const body = await req.json();
+    const { type, key } = encryptionSchema.parse(body);
+
+    const found = await findDestination(clerkId, destinationId);
+
+    if (!found) {
+      return NextResponse.json({ error: 'Destination not found' }, { status: 404 });
+    }
+
+    let info;
+    try {
+      info = await MailEncryption.inspect({ type, key });
+    } catch (error) {
+      return NextResponse.json(
+        { error: 'Invalid key', details: error instanceof Error ? error.message : 'Unreadable key' },
+        { status: 400 }
+      );
+    }
+
+    if (info.expiresAt && info.expiresAt.getTime() < Date.now()) {
+      return NextResponse.json(
+        { error: 'Invalid key', details: `The key expired on ${info.expiresAt.toISOString()}` },
+        { status: 400 }
+      );
+    }
+
+    const { user, destination } = found;
+
+    await prisma.$transaction([
+      prisma.forwardingDestination.update({
+        where: { id: destination.id },
+        data: {
+          encryptionType: type,
+          encryptionKey: key.trim(),
+          encryptionFingerprint: info.fingerprint,
+          encryptionExpiresAt: info.expiresAt,
+        },
+      }),
+      prisma.auditLog.create({
+        data: {
+          userId: user.id,
+          action: 'DESTINATION_ENCRYPTION_SET',
+          resource: `destination:${destination.id}`,
+          metadata: {
+            email: destination.email,
+            type,
+            fingerprint: info.fingerprint,
+          },
+        },
+      }),
+    ]);
+
+    return NextResponse.json({
+      id: destination.id,
+      email: destination.email,
+      encryption: {
+        type,
+        fingerprint: info.fingerprint,
+        expiresAt: info.expiresAt,
+        identities: info.identities,
+      },
+    });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Invalid request', details: error.issues },
+        { status: 400 }
+      );
+    }
+
+    console.error('Error setting destination encryption:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * DELETE /api/forwarding/destinations/[destinationId]/encryption
+ * Stop encrypting forwards to the destination
+ */
+export async function DELETE(
+  req: NextRequest,
+  context: RouteContext
+) {
+  const { userId: clerkId } = await auth();
+
+  if (!clerkId) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  try {
+    const { destinationId } = await context.params;
+    const found = await findDestination(clerkId, destinationId);
+
+    if (!found) {
+      return NextResponse.json({ error: 'Destination not found' }, { status: 404 });
+    }
+
+    const { user, destination } = found;
+
+    await prisma.$transaction([
+      prisma.forwardingDestination.update({
+        where: { id: destination.id },
+        data: {
+          encryptionType: null,
+          encryptionKey: null,
+          encryptionFingerprint: null,
+          encryptionExpiresAt: null,
+        },
+      }),
+      prisma.auditLog.create({
+        data: {
+          userId: user.id,
+          action: 'DESTINATION_ENCRYPTION_REMOVED',
+          resource: `destination:${destination.id}`,
+          metadata: {
+            email: destination.email,
+            fingerprint: destination.encryptionFingerprint,
+          },
+        },
+      }),
+    ]);
+
+    return NextResponse.json({ success: true, id: destination.id });
+  } catch (error) {
+    console.error('Error removing destination encryption:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
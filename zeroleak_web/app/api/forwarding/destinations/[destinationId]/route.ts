@@ -0,0 +1,70 @@
+/**
+ * Forwarding Destination API
+ * Remove a forwarding destination
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { auth } from '@clerk/nextjs/server';
+import prisma from '@/lib/prisma';
+
+interface RouteContext {
+  params: Promise<{ destinationId: string }>;
+}
+
+/**
+ * DELETE /api/forwarding/destinations/[destinationId]
+ * Remove a destination; aliases linked to it stop forwarding there
+ */
+export async function DELETE(
+  req: NextRequest,
+  context: RouteContext
+) {
+  const { userId: clerkId } = await auth();
+
+  if (!clerkId) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  try {
+    const { destinationId } = await context.params;
+
+    const user = await prisma.user.findUnique({
+      where: { clerkId },
+    });
+
+    if (!user) {
+      return NextResponse.json({ error: 'User not found' }, { status: 404 });
+    }
+
+    const destination = await prisma.forwardingDestination.findFirst({
+      where: { id: destinationId, userId: user.id },
+    });
+
+    if (!destination) {
+      return NextResponse.json({ error: 'Destination not found' }, { status: 404 });
+    }
+
+    // Alias links cascade
+    await prisma.$transaction([
+      prisma.forwardingDestination.delete({
+        where: { id: destination.id },
+      }),
+      prisma.auditLog.create({
+        data: {
+          userId: user.id,
+          action: 'DESTINATION_REMOVED',
+          resource: `destination:${destination.id}`,
+          metadata: { email: destination.email },
+        },
+      }),
+    ]);
+
+    return NextResponse.json({ success: true, id: destination.id });
+  } catch (error) {
+    console.error('Error removing forwarding destination:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
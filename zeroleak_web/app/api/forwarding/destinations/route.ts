@@ -0,0 +1,190 @@
+/**
+ * Forwarding Destinations API
+ * List the user's forwarding destinations, and add one: it receives a verification
+ * link and gets no forwarded mail until the link is followed
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { auth } from '@clerk/nextjs/server';
+import prisma from '@/lib/prisma';
+import { z } from 'zod';
+import { ForwardingDestinations } from '@/lib/services/forwarding-destinations';
+import { ReverseAlias } from '@/lib/services/reverse-alias';
+
+const addDestinationSchema = z.object({
+  email: z.string().email().max(254).transform(val => val.toLowerCase()),
+});
+
+/**
+ * GET /api/forwarding/destinations
+ * The user's destinations with the aliases linked to each
+ */
+export async function GET() {
+  const { userId: clerkId } = await auth();
+
+  if (!clerkId) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  try {
+    const user = await prisma.user.findUnique({
+      where: { clerkId },
+    });
+
+    if (!user) {
+      return NextResponse.json({ error: 'User not found' }, { status: 404 });
+    }
+
+    const destinations = await prisma.forwardingDestination.findMany({
+      where: { userId: user.id },
+      include: {
+        aliases: {
+          include: { alias: { select: { id: true, localPart: true, domain: true } } },
+        },
+      },
+      orderBy: { createdAt: 'asc' },
+    });
+
+    return NextResponse.json({
+      destinations: destinations.map(destination => ({
+        id: destination.id,
+        email: destination.email,
+        verified: !!destination.verifiedAt,
+        verifiedAt: destination.verifiedAt,
+        verificationSentAt: destination.verificationSentAt,
+        encryption: destination.encryptionType
+          ? {
+              type: destination.encryptionType,
+              fingerprint: destination.encryptionFingerprint,
+              expiresAt: destination.encryptionExpiresAt,
+            }
+          : null,
+        aliases: destination.aliases.map(({ alias }) => ({
+          id: alias.id,
+          email: `${alias.localPart}@${alias.domain}`,
+        })),
+        createdAt: destination.createdAt,
+      })),
+      maxDestinations: ForwardingDestinations.MAX_PER_USER,
+    });
+  } catch (error) {
+    console.error('Error fetching forwarding destinations:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST /api/forwarding/destinations
+ * Add a destination and email it a verification link. Adding an unverified
+ * destination again sends a new link.
+ */
+export async function POST(req: NextRequest) {
+  const { userId: clerkId } = await auth();
+
+  if (!clerkId) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  try {
+    const body = await req.json();
+    const { email } = addDestinationSchema.parse(body);
+
+    const user = await prisma.user.findUnique({
+      where: { clerkId },
+    });
+
+    if (!user) {
+      return NextResponse.json({ error: 'User not found' }, { status: 404 });
+    }
+
+    // Forwarding to one of our own addresses would loop back into the relay
+    const relayDomain = (process.env.RELAY_DOMAIN || 'mail.zeroleak.app').toLowerCase();
+    const ownDomain = await prisma.domain.findFirst({
+      where: { domain: email.split('@')[1] },
+      select: { id: true },
+    });
+
+    if (email.endsWith(`@${relayDomain}`) || ownDomain || ReverseAlias.parse(email)) {
+      return NextResponse.json(
+        { error: 'A relay address cannot be a forwarding destination' },
+        { status: 400 }
+      );
+    }
+
+    let destination = await prisma.forwardingDestination.findUnique({
+      where: { userId_email: { userId: user.id, email } },
+    });
+
+    if (destination?.verifiedAt) {
+      return NextResponse.json({ error: 'Destination is already verified' }, { status: 409 });
+    }
+
+    if (!destination) {
+      const count = await prisma.forwardingDestination.count({
+        where: { userId: user.id },
+      });
+
+      if (count >= ForwardingDestinations.MAX_PER_USER) {
+        return NextResponse.json(
+          { error: `You can add up to ${ForwardingDestinations.MAX_PER_USER} destinations` },
+          { status: 403 }
+        );
+      }
+
+      destination = await prisma.forwardingDestination.create({
+        data: { userId: user.id, email },
+      });
+
+      await prisma.auditLog.create({
+        data: {
+          userId: user.id,
+          action: 'DESTINATION_ADDED',
+          resource: `destination:${destination.id}`,
+          metadata: { email },
+        },
+      });
+    }
+
+    const result = await ForwardingDestinations.sendVerification(destination);
+
+    if (!result) {
+      return NextResponse.json(
+        { error: 'A verification link was sent recently. Check your inbox or try again in a minute.' },
+        { status: 429 }
+      );
+    }
+
+    if (!result.success) {
+      console.error(`Failed to send verification to ${email}:`, result.error);
+      return NextResponse.json(
+        { error: 'Failed to send verification email', details: result.error },
+        { status: 502 }
+      );
+    }
+
+    return NextResponse.json(
+      {
+        id: destination.id,
+        email: destination.email,
+        verified: false,
+      },
+      { status: 201 }
+    );
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Invalid request', details: error.issues },
+        { status: 400 }
+      );
+    }
+
+    console.error('Error adding forwarding destination:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
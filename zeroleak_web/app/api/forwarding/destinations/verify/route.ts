@@ -0,0 +1,116 @@
+/**
+ * Forwarding Destination Verification
+ * Target of the link emailed to a new destination. Public: the link may be opened
+ * on a device that isn't signed in, and the token alone proves access to the mailbox.
+ * Opening the link only shows a button, so mail scanners that follow links can't
+ * confirm an address on the recipient's behalf.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import prisma from '@/lib/prisma';
+import { ForwardingDestinations } from '@/lib/services/forwarding-destinations';
+
+/**
+ * GET /api/forwarding/destinations/verify?token=...
+ * Confirmation page for the emailed link
+ */
+export async function GET(req: NextRequest) {
+  const token = readToken(req);
+  if (!token) {
+    return page('Invalid link', 'This link is invalid or has expired.', 403);
+  }
+
+  try {
+    const destination = await ForwardingDestinations.findByToken(token);
+
+    if (!destination) {
+      return page('Invalid link', 'This link is invalid or has expired.', 403);
+    }
+
+    return page(
+      'Confirm forwarding address?',
+      `ZeroLeak will be able to forward alias mail to ${destination.email}.`,
+      200,
+      true
+    );
+  } catch (error) {
+    console.error('Error loading forwarding destination verification:', error);
+    return page('Something went wrong', 'The link could not be checked. Please try again.', 500);
+  }
+}
+
+/**
+ * POST /api/forwarding/destinations/verify?token=...
+ * Verify the destination and redirect to the settings page
+ */
+export async function POST(req: NextRequest) {
+  const token = readToken(req);
+  // 303 so the browser follows the form submission with a GET
+  const redirect = (outcome: string) =>
+    NextResponse.redirect(new URL(`/dashboard/settings?destination=${outcome}`, req.url), 303);
+
+  if (!token) {
+    return redirect('invalid');
+  }
+
+  try {
+    const destination = await ForwardingDestinations.verify(token);
+
+    if (!destination) {
+      return redirect('invalid');
+    }
+
+    await prisma.auditLog.create({
+      data: {
+        userId: destination.userId,
+        action: 'DESTINATION_VERIFIED',
+        resource: `destination:${destination.id}`,
+        metadata: { email: destination.email },
+      },
+    });
+
+    return redirect('verified');
+  } catch (error) {
+    console.error('Error verifying forwarding destination:', error);
+    return redirect('error');
+  }
+}
+
+function readToken(req: NextRequest): string | null {
+  const token = req.nextUrl.searchParams.get('token');
+  return token && /^[a-f0-9]{64}$/.test(token) ? token : null;
+}
+
+// A bare page: the link is usually opened from a mail client, not signed in
+function page(title: string, message: string, status = 200, confirm = false) {
+  const escape = (value: string) => value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+
+  const html = `<!DOCTYPE html>
+<html>
+<head>
+  <meta charset="utf-8">
+  <meta name="viewport" content="width=device-width, initial-scale=1">
+  <title>${escape(title)} · ZeroLeak</title>
+</head>
+<body style="font-family: sans-serif; max-width: 480px; margin: 80px auto; padding: 0 16px; color: #111827;">
+  <h1 style="font-size: 22px;">${escape(title)}</h1>
+  <p style="color: #4b5563;">${escape(message)}</p>
+  ${confirm ? `<form method="post">
+    <button type="submit" style="background: #2563eb; color: #fff; border: 0; border-radius: 8px; padding: 10px 18px; font-size: 15px; cursor: pointer;">Confirm address</button>
+  </form>` : ''}
+</body>
+</html>`;
+
+  return new NextResponse(html, {
+    status,
+    headers: {
+      'Content-Type': 'text/html; charset=utf-8',
+      'Referrer-Policy': 'no-referrer',
+      'Cache-Control': 'no-store',
+    },
+  });
+}
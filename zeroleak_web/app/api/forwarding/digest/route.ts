@@ -0,0 +1,150 @@
+/**
+ * Digest Settings API
+ * The time zone and quiet hours digests are scheduled around, and the digests sent recently
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { auth } from '@clerk/nextjs/server';
+import prisma from '@/lib/prisma';
+import { z } from 'zod';
+import { DigestMailer } from '@/lib/services/digest-mailer';
+
+const hour = z.number().int().min(0).max(23);
+
+const updateSchema = z.object({
+  timezone: z.string().max(64).refine(val => DigestMailer.isValidTimezone(val), 'Unknown time zone').optional(),
+  quietHoursStart: hour.nullable().optional(),
+  quietHoursEnd: hour.nullable().optional(),
+});
+
+/**
+ * GET /api/forwarding/digest
+ * Digest settings, the aliases in digest mode and the latest deliveries
+ */
+export async function GET() {
+  const { userId: clerkId } = await auth();
+
+  if (!clerkId) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  try {
+    const user = await prisma.user.findUnique({
+      where: { clerkId },
+    });
+
+    if (!user) {
+      return NextResponse.json({ error: 'User not found' }, { status: 404 });
+    }
+
+    const [aliases, held, deliveries] = await Promise.all([
+      prisma.alias.findMany({
+        where: { userId: user.id, deliveryMode: { not: 'IMMEDIATE' } },
+        select: { id: true, localPart: true, domain: true, deliveryMode: true },
+        orderBy: { createdAt: 'desc' },
+      }),
+      prisma.emailMessage.count({
+        where: { heldForDigest: true, digestedAt: null, alias: { userId: user.id, status: 'ACTIVE' } },
+      }),
+      prisma.digestDelivery.findMany({
+        where: { userId: user.id },
+        orderBy: { sentAt: 'desc' },
+        take: 10,
+      }),
+    ]);
+
+    return NextResponse.json({
+      timezone: user.timezone,
+      quietHoursStart: user.quietHoursStart,
+      quietHoursEnd: user.quietHoursEnd,
+      aliases: aliases.map(alias => ({
+        id: alias.id,
+        email: `${alias.localPart}@${alias.domain}`,
+        deliveryMode: alias.deliveryMode,
+      })),
+      heldMessages: held,
+      deliveries: deliveries.map(delivery => ({
+        id: delivery.id,
+        frequencies: delivery.frequencies,
+        destination: delivery.destination,
+        messageCount: delivery.messageCount,
+        success: delivery.success,
+        error: delivery.error,
+        sentAt: delivery.sentAt,
+      })),
+    });
+  } catch (error) {
+    console.error('Error fetching digest settings:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * PATCH /api/forwarding/digest
+ * Update the time zone or quiet hours. Both quiet hours must be set for the window to
+ * apply; setting them equal (or null) turns it off.
+ */
+export async function PATCH(req: NextRequest) {
+  const { userId: clerkId } = await auth();
+
+  if (!clerkId) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  try {
+    const body = await req.json();
+    const params = updateSchema.parse(body);
+
+    const user = await prisma.user.findUnique({
+      where: { clerkId },
+    });
+
+    if (!user) {
+      return NextResponse.json({ error: 'User not found' }, { status: 404 });
+    }
+
+    const updated = await prisma.user.update({
+      where: { id: user.id },
+      data: {
+        timezone: params.timezone,
+        quietHoursStart: params.quietHoursStart,
+        quietHoursEnd: params.quietHoursEnd,
+      },
+    });
+
+    await prisma.auditLog.create({
+      data: {
+        userId: user.id,
+        action: 'DIGEST_SETTINGS_UPDATED',
+        resource: 'forwarding:digest',
+        metadata: {
+          timezone: updated.timezone,
+          quietHoursStart: updated.quietHoursStart,
+          quietHoursEnd: updated.quietHoursEnd,
+        },
+      },
+    });
+
+    return NextResponse.json({
+      timezone: updated.timezone,
+      quietHoursStart: updated.quietHoursStart,
+      quietHoursEnd: updated.quietHoursEnd,
+    });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Invalid request data', details: error.issues },
+        { status: 400 }
+      );
+    }
+
+    console.error('Error updating digest settings:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
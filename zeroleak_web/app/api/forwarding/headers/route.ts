@@ -0,0 +1,105 @@
+/**
+ * Forwarding Headers API
+ * Whether forwarded mail uses minimal headers, and which headers are sent
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { auth } from '@clerk/nextjs/server';
+import prisma from '@/lib/prisma';
+import { z } from 'zod';
+import { HeaderPolicy } from '@/lib/services/header-policy';
+
+const updateSchema = z.object({
+  minimalHeaders: z.boolean(),
+});
+
+/**
+ * GET /api/forwarding/headers
+ * The minimal headers setting and the headers forwards may carry under it
+ */
+export async function GET() {
+  const { userId: clerkId } = await auth();
+
+  if (!clerkId) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  try {
+    const user = await prisma.user.findUnique({
+      where: { clerkId },
+    });
+
+    if (!user) {
+      return NextResponse.json({ error: 'User not found' }, { status: 404 });
+    }
+
+    return NextResponse.json({
+      minimalHeaders: user.minimalHeaders,
+      allowedHeaders: HeaderPolicy.allowed({ minimal: user.minimalHeaders }),
+    });
+  } catch (error) {
+    console.error('Error fetching header settings:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * PATCH /api/forwarding/headers
+ * Turn minimal headers on or off
+ */
+export async function PATCH(req: NextRequest) {
+  const { userId: clerkId } = await auth();
+
+  if (!clerkId) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  try {
+    const body = await req.json();
+    const { minimalHeaders } = updateSchema.parse(body);
+
+    const user = await prisma.user.findUnique({
+      where: { clerkId },
+    });
+
+    if (!user) {
+      return NextResponse.json({ error: 'User not found' }, { status: 404 });
+    }
+
+    await prisma.$transaction([
+      prisma.user.update({
+        where: { id: user.id },
+        data: { minimalHeaders },
+      }),
+      prisma.auditLog.create({
+        data: {
+          userId: user.id,
+          action: 'HEADER_SETTINGS_UPDATED',
+          resource: 'forwarding:headers',
+          metadata: { from: user.minimalHeaders, to: minimalHeaders },
+        },
+      }),
+    ]);
+
+    return NextResponse.json({
+      minimalHeaders,
+      allowedHeaders: HeaderPolicy.allowed({ minimal: minimalHeaders }),
+    });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Invalid request data', details: error.issues },
+        { status: 400 }
+      );
+    }
+
+    console.error('Error updating header settings:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,120 @@
+/**
+ * Forwarding Suppression API
+ * Show forwarding addresses that are bouncing, and resume forwarding to an address
+ * that was paused after repeated hard bounces
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { auth } from '@clerk/nextjs/server';
+import prisma from '@/lib/prisma';
+import { z } from 'zod';
+import { BounceHandler } from '@/lib/services/bounce-handler';
+
+const resumeSchema = z.object({
+  address: z.string().email(),
+});
+
+/**
+ * GET /api/forwarding/suppressions
+ * Bounce status of the user's forwarding addresses
+ */
+export async function GET() {
+  const { userId: clerkId } = await auth();
+
+  if (!clerkId) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  try {
+    const user = await prisma.user.findUnique({
+      where: { clerkId },
+    });
+
+    if (!user) {
+      return NextResponse.json({ error: 'User not found' }, { status: 404 });
+    }
+
+    const suppressions = await prisma.forwardingSuppression.findMany({
+      where: { userId: user.id },
+      orderBy: { lastBounceAt: 'desc' },
+    });
+
+    return NextResponse.json({
+      addresses: suppressions.map(suppression => ({
+        address: suppression.address,
+        paused: !!suppression.suppressedAt,
+        pausedAt: suppression.suppressedAt,
+        hardBounces: suppression.hardBounces,
+        softBounces: suppression.softBounces,
+        lastBounceAt: suppression.lastBounceAt,
+        lastReason: suppression.lastReason,
+      })),
+    });
+  } catch (error) {
+    console.error('Error fetching forwarding suppressions:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * DELETE /api/forwarding/suppressions
+ * Resume forwarding to a paused address
+ */
+export async function DELETE(req: NextRequest) {
+  const { userId: clerkId } = await auth();
+
+  if (!clerkId) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  try {
+    const body = await req.json();
+    const { address } = resumeSchema.parse(body);
+    const normalized = address.toLowerCase();
+
+    const user = await prisma.user.findUnique({
+      where: { clerkId },
+    });
+
+    if (!user) {
+      return NextResponse.json({ error: 'User not found' }, { status: 404 });
+    }
+
+    const suppression = await prisma.forwardingSuppression.findUnique({
+      where: { userId_address: { userId: user.id, address: normalized } },
+    });
+
+    if (!suppression) {
+      return NextResponse.json({ error: 'Forwarding address not found' }, { status: 404 });
+    }
+
+    await BounceHandler.resume(user.id, normalized);
+
+    await prisma.auditLog.create({
+      data: {
+        userId: user.id,
+        action: 'FORWARDING_RESUMED',
+        resource: `forwarding:${normalized}`,
+        metadata: { address: normalized },
+      },
+    });
+
+    return NextResponse.json({ success: true, address: normalized });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Invalid request', details: error.issues },
+        { status: 400 }
+      );
+    }
+
+    console.error('Error resuming forwarding:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
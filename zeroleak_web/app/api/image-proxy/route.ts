@@ -0,0 +1,47 @@
+/**
+ * Image Proxy API
+ * Serves remote images referenced by forwarded and viewed mail. Public: images are
+ * loaded by mail clients that aren't signed in, and only URLs we signed are served.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { ImageProxy } from '@/lib/services/image-proxy';
+
+/**
+ * GET /api/image-proxy?url=...&sig=...
+ * The image, fetched once server-side and cached
+ */
+export async function GET(req: NextRequest) {
+  const url = req.nextUrl.searchParams.get('url');
+  const signature = req.nextUrl.searchParams.get('sig');
+
+  if (!url || !signature || !ImageProxy.verify(url, signature)) {
+    return NextResponse.json({ error: 'Invalid image URL' }, { status: 403 });
+  }
+
+  try {
+    const image = await ImageProxy.get(url);
+
+    if (!image) {
+      return NextResponse.json({ error: 'Image unavailable' }, { status: 404 });
+    }
+
+    return new NextResponse(new Uint8Array(image.content), {
+      headers: {
+        'Content-Type': image.contentType,
+        'Content-Length': String(image.content.length),
+        'X-Content-Type-Options': 'nosniff',
+        'Content-Security-Policy': "default-src 'none'; sandbox",
+        'Referrer-Policy': 'no-referrer',
+        // The URL is signed and the content cached, so clients may keep it for good
+        'Cache-Control': 'public, max-age=604800, immutable',
+      },
+    });
+  } catch (error) {
+    console.error('Error proxying image:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,85 @@
+/**
+ * Attachment Download API
+ * Stream a stored attachment for an email the user owns
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { auth } from '@clerk/nextjs/server';
+import prisma from '@/lib/prisma';
+import { AttachmentStore } from '@/lib/services/attachment-store';
+
+interface RouteContext {
+  params: Promise<{ emailId: string; attachmentId: string }>;
+}
+
+/**
+ * GET /api/inbox/[emailId]/attachments/[attachmentId]
+ * Download an attachment
+ */
+export async function GET(
+  req: NextRequest,
+  context: RouteContext
+) {
+  const { userId: clerkId } = await auth();
+
+  if (!clerkId) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  try {
+    const { emailId, attachmentId } = await context.params;
+
+    // Get user
+    const user = await prisma.user.findUnique({
+      where: { clerkId },
+    });
+
+    if (!user) {
+      return NextResponse.json({ error: 'User not found' }, { status: 404 });
+    }
+
+    // Get attachment with ownership check through the email's alias
+    const attachment = await prisma.attachment.findFirst({
+      where: {
+        id: attachmentId,
+        emailMessageId: emailId,
+        emailMessage: {
+          alias: {
+            userId: user.id,
+          },
+        },
+      },
+    });
+
+    if (!attachment) {
+      return NextResponse.json({ error: 'Attachment not found' }, { status: 404 });
+    }
+
+    const content = await AttachmentStore.read(attachment.sha256);
+
+    if (!content) {
+      console.error(`Blob missing for attachment ${attachment.id} (${attachment.sha256})`);
+      return NextResponse.json({ error: 'Attachment content unavailable' }, { status: 410 });
+    }
+
+    const asciiName = attachment.filename.replace(/[^\x20-\x7e]/g, '_').replace(/["\\]/g, '_');
+
+    // Always download, never render: attachments are untrusted sender content
+    return new NextResponse(new Uint8Array(content), {
+      headers: {
+        'Content-Type': attachment.contentType || 'application/octet-stream',
+        'Content-Length': String(content.length),
+        'Content-Disposition': `attachment; filename="${asciiName}"; filename*=UTF-8''${encodeURIComponent(attachment.filename)}`,
+        'X-Content-Type-Options': 'nosniff',
+        'Cache-Control': 'private, no-store',
+        'ETag': `"${attachment.sha256}"`,
+      },
+    });
+  } catch (error) {
+    console.error('Error downloading attachment:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,93 @@
+/**
+ * Forward Retry API
+ * Retry forwarding a FAILED email right away
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { auth } from '@clerk/nextjs/server';
+import prisma from '@/lib/prisma';
+import { ForwardRetry } from '@/lib/services/forward-retry';
+import { ForwardingDestinations } from '@/lib/services/forwarding-destinations';
+
+interface RouteContext {
+  params: Promise<{ emailId: string }>;
+}
+
+/**
+ * POST /api/inbox/[emailId]/retry
+ * Retry forwarding now
+ */
+export async function POST(
+  req: NextRequest,
+  context: RouteContext
+) {
+  const { userId: clerkId } = await auth();
+
+  if (!clerkId) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  try {
+    const { emailId } = await context.params;
+
+    // Get user
+    const user = await prisma.user.findUnique({
+      where: { clerkId },
+    });
+
+    if (!user) {
+      return NextResponse.json({ error: 'User not found' }, { status: 404 });
+    }
+
+    // Get email with alias check
+    const email = await prisma.emailMessage.findFirst({
+      where: {
+        id: emailId,
+        alias: {
+          userId: user.id,
+        },
+      },
+      include: { alias: true },
+    });
+
+    if (!email) {
+      return NextResponse.json({ error: 'Email not found' }, { status: 404 });
+    }
+
+    if (email.status !== 'FAILED') {
+      return NextResponse.json({ error: 'Only failed emails can be retried' }, { status: 409 });
+    }
+
+    const { alias, ...message } = email;
+
+    if (alias.status !== 'ACTIVE') {
+      return NextResponse.json({ error: 'Alias is not active' }, { status: 409 });
+    }
+
+    if ((await ForwardingDestinations.resolve(alias)).length === 0) {
+      return NextResponse.json({ error: 'Alias has no verified forwarding destination' }, { status: 409 });
+    }
+
+    const outcome = await ForwardRetry.retryNow(message, alias);
+
+    if (!outcome) {
+      return NextResponse.json({ error: 'A retry is already in progress' }, { status: 409 });
+    }
+
+    return NextResponse.json({
+      id: email.id,
+      success: outcome.result.success,
+      status: outcome.result.success ? 'DELIVERED' : 'FAILED',
+      attempt: outcome.attempt,
+      error: outcome.result.error,
+      permanent: outcome.permanent,
+      nextRetryAt: outcome.nextRetryAt,
+    });
+  } catch (error) {
+    console.error('Error retrying email:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -6,6 +6,9 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { auth } from '@clerk/nextjs/server';
 import prisma from '@/lib/prisma';
+import { AttachmentStore } from '@/lib/services/attachment-store';
+import { HtmlSanitizer } from '@/lib/services/html-sanitizer';
+import { LinkUnwrapper } from '@/lib/services/link-unwrapper';
 
 interface RouteContext {
   params: Promise<{ emailId: string }>;
@@ -55,6 +58,12 @@ export async function GET(
             status: true,
           },
         },
+        storedAttachments: {
+          orderBy: { createdAt: 'asc' },
+        },
+        forwardAttempts: {
+          orderBy: { attempt: 'asc' },
+        },
       },
     });
 
@@ -81,19 +90,60 @@ export async function GET(
       },
       from: email.fromAddress,
       to: email.toAddress,
+      tag: email.tag,
       subject: email.subject,
-      textBody: email.textBody,
-      htmlBody: email.htmlBody,
+      textBody: email.textBody ? LinkUnwrapper.rewriteText(email.textBody).text : null,
+      // Never the stored original: it may carry scripts and tracking pixels, and its images
+      // would reveal when the user reads it
+      htmlBody: email.htmlBody
+        ? HtmlSanitizer.sanitize(email.htmlBody, { remoteImages: 'PROXY', unwrapLinks: true }).html
+        : null,
+      trackersRemoved: email.trackersRemoved,
+      linkRewrites: email.linkRewrites || [],
+      securityScore: email.securityScore,
+      securityThreats: email.securityThreats || [],
       headers: email.headers,
-      attachments: email.attachments,
+      // Messages received before attachment storage only have metadata
+      attachments: email.storedAttachments.length > 0
+        ? email.storedAttachments.map(att => ({
+            id: att.id,
+            filename: att.filename,
+            contentType: att.contentType,
+            size: att.size,
+            sha256: att.sha256,
+            contentId: att.contentId,
+            inline: att.inline,
+            url: `/api/inbox/${email.id}/attachments/${att.id}`,
+          }))
+        : email.attachments,
       status: email.status,
       isSpam: email.isSpam,
       spamScore: email.spamScore,
+      authentication: {
+        spf: email.spfResult,
+        dkim: email.dkimResult,
+        dmarc: email.dmarcResult,
+        dkimDomain: email.dkimDomain,
+        source: email.authSource,
+        verified: email.senderVerified,
+      },
       receivedAt: email.receivedAt,
       forwardedTo: email.forwardedTo,
       forwardedAt: email.forwardedAt,
       read: true, // Always true after GET
       errorMessage: email.errorMessage,
+      nextRetryAt: email.nextRetryAt,
+      forwardAttempts: email.forwardAttempts.map(attempt => ({
+        attempt: attempt.attempt,
+        destination: attempt.destination,
+        success: attempt.success,
+        provider: attempt.provider,
+        error: attempt.error,
+        statusCode: attempt.statusCode,
+        permanent: attempt.permanent,
+        trigger: attempt.trigger,
+        createdAt: attempt.createdAt,
+      })),
     });
   } catch (error) {
     console.error('Error fetching email:', error);
@@ -200,6 +250,11 @@ export async function DELETE(
           userId: user.id,
         },
       },
+      include: {
+        storedAttachments: {
+          select: { sha256: true },
+        },
+      },
     });
 
     if (!email) {
@@ -210,6 +265,9 @@ export async function DELETE(
       where: { id: emailId },
     });
 
+    // Attachment rows cascade; drop blobs no other message shares
+    await AttachmentStore.deleteUnreferenced(email.storedAttachments.map(att => att.sha256));
+
     return NextResponse.json({ success: true });
   } catch (error) {
     console.error('Error deleting email:', error);
@@ -10,6 +10,7 @@ import { z } from 'zod';
 
 const querySchema = z.object({
   aliasId: z.string().optional(),
+  tag: z.string().optional(),
   status: z.enum(['PENDING', 'DELIVERED', 'FAILED', 'SPAM', 'QUARANTINED']).optional(),
   unreadOnly: z.string().optional().transform(val => val === 'true'),
   limit: z.string().optional().transform(val => parseInt(val || '50')),
@@ -77,6 +78,10 @@ export async function GET(req: NextRequest) {
       where.read = false;
     }
 
+    if (params.tag) {
+      where.tag = params.tag.toLowerCase();
+    }
+
     // Get emails with pagination
     const [emails, total] = await Promise.all([
       prisma.emailMessage.findMany({
@@ -107,14 +112,18 @@ export async function GET(req: NextRequest) {
         merchant: email.alias.merchant,
       },
       from: email.fromAddress,
+      tag: email.tag,
       subject: email.subject,
       preview: email.textBody?.substring(0, 150) || email.htmlBody?.replace(/<[^>]*>/g, '').substring(0, 150),
       receivedAt: email.receivedAt,
       read: email.read,
       status: email.status,
+      nextRetryAt: email.nextRetryAt,
       isSpam: email.isSpam,
       spamScore: email.spamScore,
+      senderVerified: email.senderVerified,
       hasAttachments: email.attachments && (email.attachments as any[]).length > 0,
+      trackersRemoved: email.trackersRemoved,
     }));
 
     return NextResponse.json({
@@ -13,6 +13,7 @@ const searchSchema = z.object({
   from: z.string().optional(),
   to: z.string().optional(),
   subject: z.string().optional(),
+  tag: z.string().optional(),
   merchant: z.string().optional(),
   startDate: z.string().optional().transform(val => val ? new Date(val) : undefined),
   endDate: z.string().optional().transform(val => val ? new Date(val) : undefined),
@@ -77,6 +78,10 @@ export async function GET(req: NextRequest) {
       where.subject = { contains: params.subject, mode: 'insensitive' };
     }
 
+    if (params.tag) {
+      where.tag = params.tag.toLowerCase();
+    }
+
     // Date range
     if (params.startDate || params.endDate) {
       where.receivedAt = {};
@@ -138,13 +143,17 @@ export async function GET(req: NextRequest) {
         merchant: email.alias.merchant,
       },
       from: email.fromAddress,
+      tag: email.tag,
       subject: email.subject,
       preview: email.textBody?.substring(0, 150) || email.htmlBody?.replace(/<[^>]*>/g, '').substring(0, 150),
       receivedAt: email.receivedAt,
       read: email.read,
       isSpam: email.isSpam,
+      senderVerified: email.senderVerified,
       status: email.status,
+      nextRetryAt: email.nextRetryAt,
       hasAttachments: email.attachments && (email.attachments as any[]).length > 0,
+      trackersRemoved: email.trackersRemoved,
     }));
 
     return NextResponse.json({
@@ -159,6 +168,7 @@ export async function GET(req: NextRequest) {
         query: params.query,
         from: params.from,
         subject: params.subject,
+        tag: params.tag,
         merchant: params.merchant,
       },
     });
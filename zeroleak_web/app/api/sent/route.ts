@@ -0,0 +1,111 @@
+/**
+ * Sent Mail API
+ * List messages the user has sent from their aliases
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { auth } from '@clerk/nextjs/server';
+import prisma from '@/lib/prisma';
+import { z } from 'zod';
+import { getDailySendLimit, getSendsToday } from '@/lib/subscriptions';
+
+const querySchema = z.object({
+  aliasId: z.string().optional(),
+  status: z.enum(['SENDING', 'SENT', 'FAILED']).optional(),
+  limit: z.string().optional().transform(val => Math.min(parseInt(val || '50'), 100)),
+  offset: z.string().optional().transform(val => parseInt(val || '0')),
+});
+
+/**
+ * GET /api/sent
+ * Get sent messages for the authenticated user
+ */
+export async function GET(req: NextRequest) {
+  const { userId: clerkId } = await auth();
+
+  if (!clerkId) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  try {
+    const { searchParams } = new URL(req.url);
+    const params = querySchema.parse(Object.fromEntries(searchParams));
+
+    // Get user
+    const user = await prisma.user.findUnique({
+      where: { clerkId },
+    });
+
+    if (!user) {
+      return NextResponse.json({ error: 'User not found' }, { status: 404 });
+    }
+
+    // Only aliases the user still owns
+    const where = {
+      alias: { userId: user.id },
+      ...(params.aliasId && { aliasId: params.aliasId }),
+      ...(params.status && { status: params.status }),
+    };
+
+    const [messages, total, sendsToday] = await Promise.all([
+      prisma.sentMessage.findMany({
+        where,
+        include: {
+          alias: {
+            select: {
+              id: true,
+              localPart: true,
+              domain: true,
+              merchant: true,
+            },
+          },
+        },
+        orderBy: { sentAt: 'desc' },
+        take: params.limit,
+        skip: params.offset,
+      }),
+      prisma.sentMessage.count({ where }),
+      getSendsToday(user.id),
+    ]);
+
+    return NextResponse.json({
+      messages: messages.map(message => ({
+        id: message.id,
+        alias: {
+          id: message.alias.id,
+          email: `${message.alias.localPart}@${message.alias.domain}`,
+          merchant: message.alias.merchant,
+        },
+        to: message.toAddress,
+        subject: message.subject,
+        textBody: message.textBody,
+        status: message.status,
+        errorMessage: message.errorMessage,
+        sentAt: message.sentAt,
+      })),
+      usage: {
+        sentToday: sendsToday,
+        dailyLimit: getDailySendLimit(user.role),
+      },
+      pagination: {
+        total,
+        limit: params.limit,
+        offset: params.offset,
+        hasMore: params.offset + params.limit < total,
+      },
+    });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Invalid query parameters', details: error.issues },
+        { status: 400 }
+      );
+    }
+
+    console.error('Error fetching sent messages:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
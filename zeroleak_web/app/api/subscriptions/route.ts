@@ -7,91 +7,12 @@ import { NextRequest, NextResponse } from 'next/server';
 import { auth } from '@clerk/nextjs/server';
 import prisma from '@/lib/prisma';
 import { z } from 'zod';
+import { SUBSCRIPTION_TIERS, getDailySendLimit, getSendsToday, getStorageLimit, getStorageUsage, getTierForRole } from '@/lib/subscriptions';
 
 const STRIPE_SECRET_KEY = process.env.STRIPE_SECRET_KEY;
 const STRIPE_PRICE_ID_PREMIUM = process.env.STRIPE_PRICE_ID_PREMIUM; // $9.99/month
 const STRIPE_PRICE_ID_BUSINESS = process.env.STRIPE_PRICE_ID_BUSINESS; // $29.99/month
 
-interface SubscriptionTier {
-  name: string;
-  price: number;
-  features: string[];
-  limits: {
-    maxAliases: number;
-    emailStorage: number; // GB
-    historyDays: number;
-    customDomains: boolean;
-    apiAccess: boolean;
-    prioritySupport: boolean;
-  };
-}
-
-const SUBSCRIPTION_TIERS: Record<string, SubscriptionTier> = {
-  FREE: {
-    name: 'Free',
-    price: 0,
-    features: [
-      '10 active aliases',
-      'Basic breach detection',
-      '1 GB email storage',
-      '7-day email history',
-      'Community support',
-    ],
-    limits: {
-      maxAliases: 10,
-      emailStorage: 1,
-      historyDays: 7,
-      customDomains: false,
-      apiAccess: false,
-      prioritySupport: false,
-    },
-  },
-  PREMIUM: {
-    name: 'Premium',
-    price: 9.99,
-    features: [
-      'Unlimited aliases',
-      'Real-time breach detection',
-      '50 GB email storage',
-      'Unlimited email history',
-      'Priority support',
-      'Custom domains',
-      'Advanced analytics',
-      'API access',
-    ],
-    limits: {
-      maxAliases: -1, // unlimited
-      emailStorage: 50,
-      historyDays: -1, // unlimited
-      customDomains: true,
-      apiAccess: true,
-      prioritySupport: true,
-    },
-  },
-  BUSINESS: {
-    name: 'Business',
-    price: 29.99,
-    features: [
-      'Everything in Premium',
-      'Team management (10 users)',
-      '500 GB email storage',
-      'Custom branding',
-      'SSO integration',
-      'Compliance reporting',
-      'Dedicated support',
-      'SLA guarantee',
-    ],
-    limits: {
-      maxAliases: -1,
-      emailStorage: 500,
-      historyDays: -1,
-      customDomains: true,
-      apiAccess: true,
-      prioritySupport: true,
-    },
-  },
-};
-
 /**
  * GET /api/subscriptions
  * Get current subscription status
@@ -126,24 +47,23 @@ export async function GET(req: NextRequest) {
       },
     });
 
-    // Get email storage usage
-    const emailStorage = await prisma.emailMessage.aggregate({
-      where: {
-        alias: {
-          userId: user.id,
-        },
-      },
-      _count: true,
-    });
+    // Get attachment storage usage
+    const storageUsed = await getStorageUsage(user.id);
+    const storageLimit = getStorageLimit(user.role);
+
+    // Get messages sent from aliases today
+    const sendsToday = await getSendsToday(user.id);
+    const sendLimit = getDailySendLimit(user.role);
 
     // Determine current tier
-    const currentTier = user.role === 'ADMIN' ? 'BUSINESS' : user.role === 'PREMIUM' ? 'PREMIUM' : 'FREE';
+    const currentTier = getTierForRole(user.role);
     const tierInfo = SUBSCRIPTION_TIERS[currentTier];
 
     // Check if user is at limits
     const atLimits = {
       aliases: tierInfo.limits.maxAliases !== -1 && aliasCount >= tierInfo.limits.maxAliases,
-      storage: false, // TODO: Calculate actual storage
+      storage: storageLimit !== -1 && storageUsed >= storageLimit,
+      sends: sendLimit !== -1 && sendsToday >= sendLimit,
     };
 
     return NextResponse.json({
@@ -154,8 +74,10 @@ export async function GET(req: NextRequest) {
       usage: {
         aliases: aliasCount,
         maxAliases: tierInfo.limits.maxAliases,
-        storage: 0, // TODO: Calculate
-        maxStorage: tierInfo.limits.emailStorage,
+        storage: storageUsed, // bytes
+        maxStorage: tierInfo.limits.emailStorage, // GB
+        sendsToday,
+        maxSendsPerDay: sendLimit,
       },
       atLimits,
       availableTiers: Object.entries(SUBSCRIPTION_TIERS).map(([key, tier]) => ({
@@ -274,49 +196,3 @@ export async function POST(req: NextRequest) {
     );
   }
 }
-
-/**
- * Check if user has feature access
- */
-export async function checkFeatureAccess(
-  userId: string,
-  feature: keyof SubscriptionTier['limits']
-): Promise<boolean> {
-  const user = await prisma.user.findUnique({
-    where: { id: userId },
-    select: { role: true },
-  });
-
-  if (!user) return false;
-
-  const tier = user.role === 'ADMIN' ? 'BUSINESS' : user.role === 'PREMIUM' ? 'PREMIUM' : 'FREE';
-  const limits = SUBSCRIPTION_TIERS[tier].limits;
-
-  return limits[feature] === true || limits[feature] === -1;
-}
-
-/**
- * Check if user can create more aliases
- */
-export async function canCreateAlias(userId: string): Promise<boolean> {
-  const user = await prisma.user.findUnique({
-    where: { id: userId },
-    select: { role: true },
-  });
-
-  if (!user) return false;
-
-  const tier = user.role === 'ADMIN' ? 'BUSINESS' : user.role === 'PREMIUM' ? 'PREMIUM' : 'FREE';
-  const maxAliases = SUBSCRIPTION_TIERS[tier].limits.maxAliases;
-
-  if (maxAliases === -1) return true; // unlimited
-
-  const currentCount = await prisma.alias.count({
-    where: {
-      userId,
-      status: 'ACTIVE',
-    },
-  });
-
-  return currentCount < maxAliases;
-}
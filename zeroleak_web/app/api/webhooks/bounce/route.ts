@@ -0,0 +1,82 @@
+/**
+ * Bounce Webhook Handler
+ * Receives bounce events from the outbound providers' event webhooks (SendGrid, Mailgun,
+ * Postmark). Bounces returned by mail (DSNs) arrive through the inbound pipeline instead.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import prisma from '@/lib/prisma';
+import { WebhookVerifier } from '@/lib/services/webhook-verifier';
+import { BounceHandler } from '@/lib/services/bounce-handler';
+
+/**
+ * POST /api/webhooks/bounce
+ * Record bounce events for forwarded messages
+ */
+export async function POST(req: NextRequest) {
+  try {
+    const contentType = req.headers.get('content-type') || '';
+    if (!contentType.includes('application/json')) {
+      return NextResponse.json({ error: 'Unsupported content type' }, { status: 400 });
+    }
+
+    // Read the body once: signatures are computed over the raw bytes
+    const rawBody = Buffer.from(await req.arrayBuffer());
+
+    let body: unknown;
+    try {
+      body = JSON.parse(rawBody.toString('utf8'));
+    } catch {
+      return NextResponse.json({ error: 'Invalid JSON body' }, { status: 400 });
+    }
+
+    const provider = BounceHandler.detectProvider(body);
+    const ipAddress = WebhookVerifier.getClientIp(req.headers);
+
+    if (!provider) {
+      return NextResponse.json({ error: 'Unknown provider' }, { status: 400 });
+    }
+
+    const verification = await WebhookVerifier.verify({
+      provider,
+      headers: req.headers,
+      rawBody,
+      ipAddress,
+    });
+
+    if (!verification.verified) {
+      console.warn(`Rejected ${provider} bounce webhook: ${verification.reason}`);
+
+      await prisma.auditLog.create({
+        data: {
+          action: 'WEBHOOK_REJECTED',
+          resource: 'webhook:bounce',
+          metadata: {
+            provider,
+            reason: verification.reason || 'Unknown',
+          },
+          ipAddress,
+          userAgent: req.headers.get('user-agent'),
+        },
+      }).catch(error => console.error('Failed to log rejected webhook:', error));
+
+      return NextResponse.json({ error: 'Webhook verification failed' }, { status: 401 });
+    }
+
+    const reports = BounceHandler.parseProviderEvents(provider, body);
+    let matched = 0;
+
+    for (const report of reports) {
+      const outcome = await prisma.$transaction(tx => BounceHandler.record(report, tx));
+      if (outcome.matched) matched++;
+    }
+
+    return NextResponse.json({ success: true, bounces: reports.length, matched });
+  } catch (error) {
+    console.error('Error processing bounce webhook:', error);
+    return NextResponse.json(
+      { error: 'Failed to process bounce', details: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    );
+  }
+}
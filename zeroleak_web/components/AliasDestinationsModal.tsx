@@ -0,0 +1,238 @@
+/**
+ * Alias Destinations Modal
+ * Choose which verified destinations an alias forwards to, whether it forwards each
+ * message or sends a digest, and how forwarded mail loads remote images
+ */
+
+'use client';
+
+import { useEffect, useState } from 'react';
+
+interface AliasDestinationsModalProps {
+  alias: {
+    id: string;
+    email: string;
+    deliveryMode: string;
+    remoteImages: string;
+  };
+  onClose: () => void;
+}
+
+interface Destination {
+  id: string;
+  email: string;
+  verified: boolean;
+}
+
+const DELIVERY_MODES: { value: string; label: string }[] = [
+  { value: 'IMMEDIATE', label: 'Forward each message as it arrives' },
+  { value: 'HOURLY', label: 'Hourly digest' },
+  { value: 'DAILY', label: 'Daily digest' },
+  { value: 'WEEKLY', label: 'Weekly digest' },
+];
+
+const REMOTE_IMAGE_POLICIES: { value: string; label: string }[] = [
+  { value: 'PROXY', label: 'Load through ZeroLeak (hides when and where you read mail)' },
+  { value: 'BLOCK', label: 'Block remote images' },
+  { value: 'ORIGINAL', label: 'Load from the sender' },
+];
+
+export default function AliasDestinationsModal({ alias, onClose }: AliasDestinationsModalProps) {
+  const [destinations, setDestinations] = useState<Destination[]>([]);
+  const [selected, setSelected] = useState<string[]>([]);
+  const [forwardsTo, setForwardsTo] = useState<string[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [deliveryMode, setDeliveryMode] = useState(alias.deliveryMode);
+  const [remoteImages, setRemoteImages] = useState(alias.remoteImages);
+
+  useEffect(() => {
+    const fetchDestinations = async () => {
+      try {
+        const [all, current] = await Promise.all([
+          fetch('/api/forwarding/destinations').then(res => res.json()),
+          fetch(`/api/alias/destinations?aliasId=${alias.id}`).then(res => res.json()),
+        ]);
+        setDestinations((all.destinations || []).filter((destination: Destination) => destination.verified));
+        setSelected((current.destinations || []).map((destination: Destination) => destination.id));
+        setForwardsTo(current.forwardsTo || []);
+      } catch (error) {
+        console.error('Error fetching destinations:', error);
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    fetchDestinations();
+  }, [alias.id]);
+
+  const toggle = (id: string) => {
+    setSelected(current => current.includes(id) ? current.filter(item => item !== id) : [...current, id]);
+  };
+
+  const save = async () => {
+    setSaving(true);
+    try {
+      const response = await fetch('/api/alias/destinations', {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ aliasId: alias.id, destinationIds: selected }),
+      });
+
+      if (response.ok) {
+        onClose();
+      } else {
+        const data = await response.json();
+        alert(`Error: ${data.error}`);
+      }
+    } catch (error) {
+      console.error('Error saving destinations:', error);
+      alert('Failed to save destinations. Please try again.');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const saveDeliveryMode = async (mode: string) => {
+    const previous = deliveryMode;
+    setDeliveryMode(mode);
+
+    try {
+      const response = await fetch('/api/alias/delivery', {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ aliasId: alias.id, deliveryMode: mode }),
+      });
+
+      if (!response.ok) {
+        const data = await response.json();
+        setDeliveryMode(previous);
+        alert(`Error: ${data.error}`);
+      }
+    } catch (error) {
+      console.error('Error saving delivery mode:', error);
+      setDeliveryMode(previous);
+      alert('Failed to save delivery mode. Please try again.');
+    }
+  };
+
+  const saveRemoteImages = async (policy: string) => {
+    const previous = remoteImages;
+    setRemoteImages(policy);
+
+    try {
+      const response = await fetch('/api/alias/images', {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ aliasId: alias.id, remoteImages: policy }),
+      });
+
+      if (!response.ok) {
+        const data = await response.json();
+        setRemoteImages(previous);
+        alert(`Error: ${data.error}`);
+      }
+    } catch (error) {
+      console.error('Error saving remote image policy:', error);
+      setRemoteImages(previous);
+      alert('Failed to save remote image setting. Please try again.');
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+      <div className="bg-white rounded-lg p-8 max-w-lg w-full mx-4">
+        <div className="flex justify-between items-start mb-6">
+          <div>
+            <h2 className="text-2xl font-bold text-gray-900">Forwarding</h2>
+            <p className="text-gray-600 mt-1 font-mono text-sm">{alias.email}</p>
+          </div>
+          <button
+            onClick={onClose}
+            className="text-gray-400 hover:text-gray-600 text-2xl"
+          >
+            ×
+          </button>
+        </div>
+
+        {loading ? (
+          <p>Loading destinations...</p>
+        ) : destinations.length === 0 ? (
+          <p className="text-sm text-gray-600">
+            You have no verified destinations yet. Add one under Settings → Forwarding Destinations.
+          </p>
+        ) : (
+          <div className="space-y-2 mb-6">
+            {destinations.map(destination => (
+              <label key={destination.id} className="flex items-center space-x-3 py-1">
+                <input
+                  type="checkbox"
+                  checked={selected.includes(destination.id)}
+                  onChange={() => toggle(destination.id)}
+                  className="h-4 w-4 text-blue-600 rounded"
+                />
+                <span className="text-gray-900">{destination.email}</span>
+              </label>
+            ))}
+          </div>
+        )}
+
+        <div className="mb-4">
+          <label className="block text-sm font-medium text-gray-700 mb-1">Delivery</label>
+          <select
+            value={deliveryMode}
+            onChange={(e) => saveDeliveryMode(e.target.value)}
+            className="block w-full px-3 py-2 border border-gray-300 rounded-lg text-sm"
+          >
+            {DELIVERY_MODES.map(mode => (
+              <option key={mode.value} value={mode.value}>{mode.label}</option>
+            ))}
+          </select>
+          {deliveryMode !== 'IMMEDIATE' && (
+            <p className="text-xs text-gray-500 mt-1">
+              Messages stay in your inbox and are summarised in one email, outside your quiet hours.
+            </p>
+          )}
+        </div>
+
+        <div className="mb-4">
+          <label className="block text-sm font-medium text-gray-700 mb-1">Remote images</label>
+          <select
+            value={remoteImages}
+            onChange={(e) => saveRemoteImages(e.target.value)}
+            className="block w-full px-3 py-2 border border-gray-300 rounded-lg text-sm"
+          >
+            {REMOTE_IMAGE_POLICIES.map(policy => (
+              <option key={policy.value} value={policy.value}>{policy.label}</option>
+            ))}
+          </select>
+          <p className="text-xs text-gray-500 mt-1">
+            Known trackers are always removed.
+          </p>
+        </div>
+
+        <p className="text-xs text-gray-500 mb-6">
+          {forwardsTo.length > 0
+            ? `Currently forwarding to ${forwardsTo.join(', ')}`
+            : 'Not forwarding: mail is kept in your inbox only'}
+        </p>
+
+        <div className="flex justify-end space-x-3">
+          <button
+            onClick={onClose}
+            className="px-6 py-2 bg-gray-200 text-gray-700 rounded-lg hover:bg-gray-300 font-medium"
+          >
+            Cancel
+          </button>
+          <button
+            onClick={save}
+            disabled={saving || selected.length === 0}
+            className="px-6 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:opacity-50 font-medium"
+          >
+            {saving ? 'Saving...' : 'Save'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,180 @@
+/**
+ * Banner Settings Component
+ * Position, language and templates of the banner added to forwarded mail
+ */
+
+'use client';
+
+import { useEffect, useState } from 'react';
+
+const LOCALE_NAMES: Record<string, string> = {
+  en: 'English',
+  de: 'Deutsch',
+  fr: 'Français',
+  es: 'Español',
+};
+
+export default function BannerSettings() {
+  const [bannerPosition, setBannerPosition] = useState('TOP');
+  const [locale, setLocale] = useState('en');
+  const [bannerHtml, setBannerHtml] = useState('');
+  const [bannerText, setBannerText] = useState('');
+  const [defaults, setDefaults] = useState({ html: '', text: '' });
+  const [variables, setVariables] = useState<string[]>([]);
+  const [locales, setLocales] = useState<string[]>([]);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    fetchSettings();
+  }, []);
+
+  const fetchSettings = async () => {
+    try {
+      const response = await fetch('/api/forwarding/banner');
+      const data = await response.json();
+      setBannerPosition(data.bannerPosition || 'TOP');
+      setLocale(data.locale || 'en');
+      setBannerHtml(data.bannerHtml || '');
+      setBannerText(data.bannerText || '');
+      setDefaults(data.defaults || { html: '', text: '' });
+      setVariables(data.variables || []);
+      setLocales(data.locales || []);
+    } catch (error) {
+      console.error('Error fetching banner settings:', error);
+    }
+  };
+
+  const save = async () => {
+    setSaving(true);
+    try {
+      const response = await fetch('/api/forwarding/banner', {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          bannerPosition,
+          locale,
+          // Empty templates go back to the default
+          bannerHtml: bannerHtml || null,
+          bannerText: bannerText || null,
+        }),
+      });
+
+      if (!response.ok) {
+        const data = await response.json();
+        alert(`Error: ${data.details?.[0]?.message || data.error}`);
+        return;
+      }
+
+      fetchSettings();
+    } catch (error) {
+      console.error('Error saving banner settings:', error);
+      alert('Failed to save banner settings. Please try again.');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="bg-white rounded-lg shadow p-6">
+      <h2 className="text-xl font-bold text-gray-900 mb-2">Forwarding Banner</h2>
+      <p className="text-sm text-gray-600 mb-4">
+        The note ZeroLeak adds to forwarded mail. Leave a template empty to use the default for your
+        language.
+      </p>
+
+      <div className="space-y-4">
+        <div className="flex space-x-4">
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Position</label>
+            <select
+              value={bannerPosition}
+              onChange={(e) => setBannerPosition(e.target.value)}
+              className="px-3 py-2 border border-gray-300 rounded-lg text-sm"
+            >
+              <option value="TOP">Top of the message</option>
+              <option value="BOTTOM">Bottom of the message</option>
+              <option value="OFF">Off</option>
+            </select>
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Language</label>
+            <select
+              value={locale}
+              onChange={(e) => setLocale(e.target.value)}
+              className="px-3 py-2 border border-gray-300 rounded-lg text-sm"
+            >
+              {locales.map(code => (
+                <option key={code} value={code}>{LOCALE_NAMES[code] || code}</option>
+              ))}
+            </select>
+          </div>
+        </div>
+
+        {bannerPosition !== 'OFF' && (
+          <>
+            <div>
+              <div className="flex justify-between mb-1">
+                <label className="block text-sm font-medium text-gray-700">HTML template</label>
+                {!bannerHtml && (
+                  <button
+                    type="button"
+                    onClick={() => setBannerHtml(defaults.html.trim())}
+                    className="text-sm text-blue-600 hover:text-blue-800"
+                  >
+                    Edit the default
+                  </button>
+                )}
+              </div>
+              <textarea
+                value={bannerHtml}
+                onChange={(e) => setBannerHtml(e.target.value)}
+                placeholder={defaults.html.trim()}
+                rows={6}
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg text-xs font-mono"
+              />
+            </div>
+
+            <div>
+              <div className="flex justify-between mb-1">
+                <label className="block text-sm font-medium text-gray-700">Plain text template</label>
+                {!bannerText && (
+                  <button
+                    type="button"
+                    onClick={() => setBannerText(defaults.text.trim())}
+                    className="text-sm text-blue-600 hover:text-blue-800"
+                  >
+                    Edit the default
+                  </button>
+                )}
+              </div>
+              <textarea
+                value={bannerText}
+                onChange={(e) => setBannerText(e.target.value)}
+                placeholder={defaults.text.trim()}
+                rows={6}
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg text-xs font-mono"
+              />
+            </div>
+
+            <p className="text-xs text-gray-500">
+              Variables:{' '}
+              <span className="font-mono">{variables.map(name => `{{${name}}}`).join(' ')}</span>.
+              Scripts and unsafe HTML are removed from the HTML template.
+            </p>
+          </>
+        )}
+
+        <div className="flex justify-end">
+          <button
+            onClick={save}
+            disabled={saving}
+            className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:opacity-50 text-sm"
+          >
+            {saving ? 'Saving...' : 'Save'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
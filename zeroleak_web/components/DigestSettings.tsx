@@ -0,0 +1,184 @@
+/**
+ * Digest Settings Component
+ * Time zone and quiet hours for digest emails, the aliases that send digests and
+ * the latest digests sent
+ */
+
+'use client';
+
+import { useEffect, useState } from 'react';
+
+interface DigestAlias {
+  id: string;
+  email: string;
+  deliveryMode: string;
+}
+
+interface DigestDelivery {
+  id: string;
+  frequencies: string[];
+  destination: string;
+  messageCount: number;
+  success: boolean;
+  error: string | null;
+  sentAt: string;
+}
+
+const HOURS = Array.from({ length: 24 }, (_, hour) => hour);
+
+export default function DigestSettings() {
+  const [timezone, setTimezone] = useState('UTC');
+  const [quietHoursStart, setQuietHoursStart] = useState<number | null>(null);
+  const [quietHoursEnd, setQuietHoursEnd] = useState<number | null>(null);
+  const [aliases, setAliases] = useState<DigestAlias[]>([]);
+  const [heldMessages, setHeldMessages] = useState(0);
+  const [deliveries, setDeliveries] = useState<DigestDelivery[]>([]);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    fetchSettings();
+  }, []);
+
+  const fetchSettings = async () => {
+    try {
+      const response = await fetch('/api/forwarding/digest');
+      const data = await response.json();
+      setTimezone(data.timezone || 'UTC');
+      setQuietHoursStart(data.quietHoursStart ?? null);
+      setQuietHoursEnd(data.quietHoursEnd ?? null);
+      setAliases(data.aliases || []);
+      setHeldMessages(data.heldMessages || 0);
+      setDeliveries(data.deliveries || []);
+    } catch (error) {
+      console.error('Error fetching digest settings:', error);
+    }
+  };
+
+  const save = async () => {
+    setSaving(true);
+    try {
+      const response = await fetch('/api/forwarding/digest', {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ timezone, quietHoursStart, quietHoursEnd }),
+      });
+
+      if (!response.ok) {
+        const data = await response.json();
+        alert(`Error: ${data.error}`);
+      }
+
+      fetchSettings();
+    } catch (error) {
+      console.error('Error saving digest settings:', error);
+      alert('Failed to save digest settings. Please try again.');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const hourSelect = (value: number | null, onChange: (hour: number | null) => void) => (
+    <select
+      value={value ?? ''}
+      onChange={(e) => onChange(e.target.value === '' ? null : parseInt(e.target.value, 10))}
+      className="px-3 py-2 border border-gray-300 rounded-lg text-sm"
+    >
+      <option value="">Off</option>
+      {HOURS.map(hour => (
+        <option key={hour} value={hour}>{`${hour.toString().padStart(2, '0')}:00`}</option>
+      ))}
+    </select>
+  );
+
+  return (
+    <div className="bg-white rounded-lg shadow p-6">
+      <h2 className="text-xl font-bold text-gray-900 mb-2">Digests</h2>
+      <p className="text-sm text-gray-600 mb-4">
+        Aliases set to an hourly, daily or weekly digest keep their mail in your inbox and send you one
+        summary instead. Choose an alias&apos;s delivery from its 📬 Forwarding menu on the Aliases page.
+      </p>
+
+      <div className="space-y-4 mb-6">
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">Time zone</label>
+          <div className="flex space-x-3">
+            <input
+              type="text"
+              value={timezone}
+              onChange={(e) => setTimezone(e.target.value)}
+              placeholder="Europe/Berlin"
+              className="flex-1 px-3 py-2 border border-gray-300 rounded-lg text-sm"
+            />
+            <button
+              type="button"
+              onClick={() => setTimezone(Intl.DateTimeFormat().resolvedOptions().timeZone)}
+              className="text-sm text-blue-600 hover:text-blue-800"
+            >
+              Use this device&apos;s
+            </button>
+          </div>
+        </div>
+
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">Quiet hours</label>
+          <div className="flex items-center space-x-2 text-sm text-gray-600">
+            <span>No digests from</span>
+            {hourSelect(quietHoursStart, setQuietHoursStart)}
+            <span>to</span>
+            {hourSelect(quietHoursEnd, setQuietHoursEnd)}
+          </div>
+          <p className="text-xs text-gray-500 mt-1">
+            Digests due during quiet hours are sent when they end.
+          </p>
+        </div>
+
+        <div className="flex justify-end">
+          <button
+            onClick={save}
+            disabled={saving}
+            className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:opacity-50 text-sm"
+          >
+            {saving ? 'Saving...' : 'Save'}
+          </button>
+        </div>
+      </div>
+
+      <h3 className="text-sm font-semibold text-gray-900 mb-2">Aliases in digest mode</h3>
+      {aliases.length === 0 ? (
+        <p className="text-sm text-gray-500 mb-4">Every alias forwards messages as they arrive</p>
+      ) : (
+        <ul className="text-sm text-gray-700 mb-4 space-y-1">
+          {aliases.map(alias => (
+            <li key={alias.id}>
+              <span className="font-mono">{alias.email}</span>{' '}
+              <span className="text-gray-500">· {alias.deliveryMode.toLowerCase()}</span>
+            </li>
+          ))}
+        </ul>
+      )}
+      {heldMessages > 0 && (
+        <p className="text-xs text-gray-500 mb-4">{heldMessages} message(s) waiting for the next digest</p>
+      )}
+
+      {deliveries.length > 0 && (
+        <>
+          <h3 className="text-sm font-semibold text-gray-900 mb-2">Recent digests</h3>
+          <ul className="divide-y divide-gray-200 text-sm">
+            {deliveries.map(delivery => (
+              <li key={delivery.id} className="py-2 flex justify-between">
+                <span className="text-gray-700">
+                  {new Date(delivery.sentAt).toLocaleString()} · {delivery.messageCount} message(s) to {delivery.destination}
+                </span>
+                {delivery.success ? (
+                  <span className="text-green-700">Sent</span>
+                ) : (
+                  <span className="text-red-700" title={delivery.error || undefined}>Failed</span>
+                )}
+              </li>
+            ))}
+          </ul>
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,312 @@
+/**
+ * Forwarding Destinations Component
+ * Add, verify and remove the mailboxes aliases can forward to, and manage the keys
+ * forwards to them are encrypted with
+ */
+
+'use client';
+
+import { useEffect, useState } from 'react';
+
+interface Destination {
+  id: string;
+  email: string;
+  verified: boolean;
+  verificationSentAt?: string;
+  encryption: {
+    type: 'PGP' | 'SMIME';
+    fingerprint: string;
+    expiresAt: string | null;
+  } | null;
+  aliases: { id: string; email: string }[];
+}
+
+// Warn this long before an encryption key expires: forwards to the destination fail after that
+const EXPIRY_WARNING_MS = 30 * 24 * 60 * 60 * 1000;
+
+// Outcome of following a verification link, passed back as ?destination=
+const VERIFICATION_MESSAGES: Record<string, { text: string; class: string }> = {
+  verified: { text: 'Destination verified. Aliases can now forward to it.', class: 'bg-green-50 text-green-800' },
+  invalid: { text: 'That verification link is invalid or has expired. Send a new one below.', class: 'bg-red-50 text-red-800' },
+  error: { text: 'Something went wrong verifying the destination. Please try again.', class: 'bg-red-50 text-red-800' },
+};
+
+export default function ForwardingDestinations() {
+  const [destinations, setDestinations] = useState<Destination[]>([]);
+  const [maxDestinations, setMaxDestinations] = useState(0);
+  const [email, setEmail] = useState('');
+  const [adding, setAdding] = useState(false);
+  const [verification, setVerification] = useState<string | null>(null);
+  const [editingKeyFor, setEditingKeyFor] = useState<string | null>(null);
+  const [keyForm, setKeyForm] = useState({ type: 'PGP', key: '' });
+  const [fetchedAt, setFetchedAt] = useState(0);
+
+  useEffect(() => {
+    setVerification(new URLSearchParams(window.location.search).get('destination'));
+    fetchDestinations();
+  }, []);
+
+  const fetchDestinations = async () => {
+    try {
+      const response = await fetch('/api/forwarding/destinations');
+      const data = await response.json();
+      setDestinations(data.destinations || []);
+      setMaxDestinations(data.maxDestinations || 0);
+      setFetchedAt(Date.now());
+    } catch (error) {
+      console.error('Error fetching destinations:', error);
+    }
+  };
+
+  const sendVerification = async (address: string) => {
+    setAdding(true);
+    try {
+      const response = await fetch('/api/forwarding/destinations', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ email: address }),
+      });
+      const data = await response.json();
+
+      if (response.ok) {
+        setEmail('');
+        alert(`Verification link sent to ${data.email}`);
+      } else {
+        alert(`Error: ${data.error}`);
+      }
+
+      fetchDestinations();
+    } catch (error) {
+      console.error('Error adding destination:', error);
+      alert('Failed to add destination. Please try again.');
+    } finally {
+      setAdding(false);
+    }
+  };
+
+  const removeDestination = async (destination: Destination) => {
+    const warning = destination.aliases.length > 0
+      ? `${destination.aliases.length} alias(es) forward to ${destination.email}. Remove it anyway?`
+      : `Remove ${destination.email}?`;
+    if (!confirm(warning)) return;
+
+    try {
+      const response = await fetch(`/api/forwarding/destinations/${destination.id}`, {
+        method: 'DELETE',
+      });
+
+      if (!response.ok) {
+        const data = await response.json();
+        alert(`Error: ${data.error}`);
+      }
+
+      fetchDestinations();
+    } catch (error) {
+      console.error('Error removing destination:', error);
+      alert('Failed to remove destination. Please try again.');
+    }
+  };
+
+  const saveKey = async (destination: Destination) => {
+    try {
+      const response = await fetch(`/api/forwarding/destinations/${destination.id}/encryption`, {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(keyForm),
+      });
+      const data = await response.json();
+
+      if (response.ok) {
+        setEditingKeyFor(null);
+        setKeyForm({ type: 'PGP', key: '' });
+      } else {
+        alert(data.details && typeof data.details === 'string' ? `${data.error}: ${data.details}` : data.error);
+      }
+
+      fetchDestinations();
+    } catch (error) {
+      console.error('Error saving encryption key:', error);
+      alert('Failed to save the key. Please try again.');
+    }
+  };
+
+  const removeKey = async (destination: Destination) => {
+    if (!confirm(`Stop encrypting mail forwarded to ${destination.email}?`)) return;
+
+    try {
+      await fetch(`/api/forwarding/destinations/${destination.id}/encryption`, {
+        method: 'DELETE',
+      });
+      fetchDestinations();
+    } catch (error) {
+      console.error('Error removing encryption key:', error);
+      alert('Failed to remove the key. Please try again.');
+    }
+  };
+
+  const message = verification ? VERIFICATION_MESSAGES[verification] : undefined;
+
+  return (
+    <div className="bg-white rounded-lg shadow p-6">
+      <h2 className="text-xl font-bold text-gray-900 mb-2">Forwarding Destinations</h2>
+      <p className="text-sm text-gray-600 mb-4">
+        Mailboxes your aliases forward to. Each one must be confirmed through the link we email to it
+        before it receives any mail.
+      </p>
+
+      {message && (
+        <div className={`rounded-lg px-4 py-3 mb-4 text-sm ${message.class}`}>
+          {message.text}
+        </div>
+      )}
+
+      <div className="divide-y divide-gray-200 mb-4">
+        {destinations.length === 0 ? (
+          <p className="py-3 text-sm text-gray-500">No destinations yet</p>
+        ) : (
+          destinations.map(destination => (
+            <div key={destination.id} className="py-3">
+              <div className="flex items-center justify-between">
+                <div>
+                  <div className="flex items-center space-x-2">
+                    <span className="font-medium text-gray-900">{destination.email}</span>
+                    {destination.verified ? (
+                      <span className="px-2 py-0.5 text-xs font-medium bg-green-100 text-green-800 rounded">Verified</span>
+                    ) : (
+                      <span className="px-2 py-0.5 text-xs font-medium bg-yellow-100 text-yellow-800 rounded">Pending</span>
+                    )}
+                  </div>
+                  <p className="text-xs text-gray-500 mt-1">
+                    {destination.aliases.length === 0
+                      ? 'Not used by any alias'
+                      : `Used by ${destination.aliases.map(alias => alias.email).join(', ')}`}
+                  </p>
+                </div>
+                <div className="space-x-3 text-sm">
+                  {!destination.verified && (
+                    <button
+                      onClick={() => sendVerification(destination.email)}
+                      disabled={adding}
+                      className="text-blue-600 hover:text-blue-800 disabled:opacity-50"
+                    >
+                      Resend link
+                    </button>
+                  )}
+                  <button
+                    onClick={() => setEditingKeyFor(editingKeyFor === destination.id ? null : destination.id)}
+                    className="text-gray-600 hover:text-gray-900"
+                  >
+                    🔒 Encryption
+                  </button>
+                  <button
+                    onClick={() => removeDestination(destination)}
+                    className="text-red-600 hover:text-red-800"
+                  >
+                    Remove
+                  </button>
+                </div>
+              </div>
+
+              {destination.encryption && (
+                <EncryptionStatus encryption={destination.encryption} now={fetchedAt} />
+              )}
+
+              {editingKeyFor === destination.id && (
+                <div className="mt-3 space-y-2 bg-gray-50 rounded-lg p-4">
+                  <p className="text-xs text-gray-600">
+                    Forwards to this address are encrypted, attachments and all, before they leave ZeroLeak.
+                    Mail that can&apos;t be encrypted is not sent.
+                  </p>
+                  <select
+                    value={keyForm.type}
+                    onChange={(e) => setKeyForm({ ...keyForm, type: e.target.value })}
+                    className="block px-3 py-2 border border-gray-300 rounded-lg text-sm"
+                  >
+                    <option value="PGP">OpenPGP public key</option>
+                    <option value="SMIME">S/MIME certificate (PEM)</option>
+                  </select>
+                  <textarea
+                    value={keyForm.key}
+                    onChange={(e) => setKeyForm({ ...keyForm, key: e.target.value })}
+                    rows={6}
+                    placeholder={keyForm.type === 'PGP' ? '-----BEGIN PGP PUBLIC KEY BLOCK-----' : '-----BEGIN CERTIFICATE-----'}
+                    className="block w-full px-3 py-2 border border-gray-300 rounded-lg text-xs font-mono"
+                  />
+                  <div className="flex justify-end space-x-3 text-sm">
+                    {destination.encryption && (
+                      <button
+                        onClick={() => removeKey(destination)}
+                        className="text-red-600 hover:text-red-800"
+                      >
+                        Stop encrypting
+                      </button>
+                    )}
+                    <button
+                      onClick={() => saveKey(destination)}
+                      disabled={!keyForm.key.trim()}
+                      className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:opacity-50"
+                    >
+                      {destination.encryption ? 'Replace Key' : 'Save Key'}
+                    </button>
+                  </div>
+                </div>
+              )}
+            </div>
+          ))
+        )}
+      </div>
+
+      <form
+        onSubmit={(e) => {
+          e.preventDefault();
+          sendVerification(email);
+        }}
+        className="flex space-x-3"
+      >
+        <input
+          type="email"
+          value={email}
+          onChange={(e) => setEmail(e.target.value)}
+          required
+          placeholder="you@example.com"
+          className="flex-1 px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+        />
+        <button
+          type="submit"
+          disabled={adding || (maxDestinations > 0 && destinations.length >= maxDestinations)}
+          className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:opacity-50 text-sm"
+        >
+          {adding ? 'Sending...' : 'Add Destination'}
+        </button>
+      </form>
+    </div>
+  );
+}
+
+function EncryptionStatus({ encryption, now }: { encryption: NonNullable<Destination['encryption']>; now: number }) {
+  const expiresAt = encryption.expiresAt ? new Date(encryption.expiresAt) : null;
+  const expired = expiresAt !== null && expiresAt.getTime() < now;
+  const expiringSoon = expiresAt !== null && !expired && expiresAt.getTime() - now < EXPIRY_WARNING_MS;
+
+  return (
+    <div className="mt-2 text-xs">
+      <p className="text-gray-700">
+        🔒 {encryption.type === 'PGP' ? 'OpenPGP' : 'S/MIME'}{' '}
+        <span className="font-mono">{encryption.fingerprint.match(/.{1,4}/g)?.join(' ')}</span>
+      </p>
+      {expired ? (
+        <p className="mt-1 text-red-700 font-medium">
+          Key expired on {expiresAt!.toLocaleDateString()}. Forwards to this address fail until you upload a new one.
+        </p>
+      ) : expiringSoon ? (
+        <p className="mt-1 text-yellow-700 font-medium">
+          Key expires on {expiresAt!.toLocaleDateString()}. Upload a renewed key before then.
+        </p>
+      ) : (
+        <p className="mt-1 text-gray-500">
+          {expiresAt ? `Expires ${expiresAt.toLocaleDateString()}` : 'Does not expire'}
+        </p>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,84 @@
+/**
+ * Header Settings Component
+ * Minimal headers mode and the headers forwarded mail may carry
+ */
+
+'use client';
+
+import { useEffect, useState } from 'react';
+
+export default function HeaderSettings() {
+  const [minimalHeaders, setMinimalHeaders] = useState(false);
+  const [allowedHeaders, setAllowedHeaders] = useState<string[]>([]);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    fetchSettings();
+  }, []);
+
+  const fetchSettings = async () => {
+    try {
+      const response = await fetch('/api/forwarding/headers');
+      const data = await response.json();
+      setMinimalHeaders(!!data.minimalHeaders);
+      setAllowedHeaders(data.allowedHeaders || []);
+    } catch (error) {
+      console.error('Error fetching header settings:', error);
+    }
+  };
+
+  const toggle = async (enabled: boolean) => {
+    setSaving(true);
+    try {
+      const response = await fetch('/api/forwarding/headers', {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ minimalHeaders: enabled }),
+      });
+
+      if (!response.ok) {
+        const data = await response.json();
+        alert(`Error: ${data.error}`);
+      }
+
+      fetchSettings();
+    } catch (error) {
+      console.error('Error saving header settings:', error);
+      alert('Failed to save header settings. Please try again.');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="bg-white rounded-lg shadow p-6">
+      <h2 className="text-xl font-bold text-gray-900 mb-2">Message Headers</h2>
+      <p className="text-sm text-gray-600 mb-4">
+        Forwards and replies are sent with a fresh Message-ID and only the headers below. Received
+        chains, provider and mail client headers never leave ZeroLeak.
+      </p>
+
+      <label className="flex items-start space-x-3 mb-4">
+        <input
+          type="checkbox"
+          checked={minimalHeaders}
+          disabled={saving}
+          onChange={(e) => toggle(e.target.checked)}
+          className="mt-1"
+        />
+        <span>
+          <span className="block font-medium text-gray-900">Minimal headers</span>
+          <span className="block text-sm text-gray-600">
+            Leave out X-ZeroLeak-Merchant, so forwards don&apos;t say which merchant an alias belongs to
+          </span>
+        </span>
+      </label>
+
+      {allowedHeaders.length > 0 && (
+        <p className="text-xs text-gray-500">
+          Headers sent: <span className="font-mono">{allowedHeaders.join(', ')}</span>
+        </p>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,51 @@
+/**
+ * Circuit Breaker
+ * Tracks consecutive failures per key and stops sending work to a failing
+ * dependency for a cool-down period
+ * State is per process: each server instance learns about outages on its own
+ */
+
+export type CircuitState = 'closed' | 'open' | 'half-open';
+
+interface CircuitEntry {
+  failures: number;
+  openedAt?: number;
+}
+
+export class CircuitBreaker {
+  private entries = new Map<string, CircuitEntry>();
+
+  constructor(
+    private failureThreshold: number = 3,
+    private cooldownMs: number = 60 * 1000
+  ) {}
+
+  /**
+   * closed: healthy; open: skip until the cool-down ends; half-open: cool-down over, next call is a trial
+   */
+  state(key: string): CircuitState {
+    const entry = this.entries.get(key);
+    if (!entry?.openedAt) return 'closed';
+    return Date.now() - entry.openedAt >= this.cooldownMs ? 'half-open' : 'open';
+  }
+
+  isAvailable(key: string): boolean {
+    return this.state(key) !== 'open';
+  }
+
+  recordSuccess(key: string) {
+    this.entries.delete(key);
+  }
+
+  recordFailure(key: string) {
+    const entry = this.entries.get(key) || { failures: 0 };
+    entry.failures++;
+
+    // A failed half-open trial re-opens immediately
+    if (entry.openedAt || entry.failures >= this.failureThreshold) {
+      entry.openedAt = Date.now();
+    }
+
+    this.entries.set(key, entry);
+  }
+}
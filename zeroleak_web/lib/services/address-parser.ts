@@ -0,0 +1,68 @@
+/**
+ * Address Parsing Service
+ * Parses RFC 5322 address lists (display names, quoted commas, groups) into bare addresses
+ */
+
+import addressparser from 'nodemailer/lib/addressparser';
+
+export interface ParsedAddress {
+  name?: string;
+  address: string;
+}
+
+export class AddressParser {
+  /**
+   * Parse one or more address-list header values into individual addresses
+   * e.g. `"Shop, Inc" <alias@domain>, other@domain` → two entries
+   */
+  static parseList(value: string | string[] | undefined | null): ParsedAddress[] {
+    if (!value) return [];
+
+    const values = Array.isArray(value) ? value : [value];
+    const addresses: ParsedAddress[] = [];
+
+    for (const item of values) {
+      for (const parsed of addressparser(item, { flatten: true })) {
+        if (parsed.address && parsed.address.includes('@')) {
+          addresses.push({
+            name: parsed.name || undefined,
+            address: parsed.address.toLowerCase(),
+          });
+        }
+      }
+    }
+
+    return addresses;
+  }
+
+  /**
+   * Extract the first bare address from a header value such as `"Shop" <alias@domain>`
+   */
+  static extractAddress(value: string | undefined | null): string | undefined {
+    return this.parseList(value)[0]?.address;
+  }
+
+  /**
+   * Split a sub-address: `alias+tag@domain` → base `alias@domain`, tag `tag`
+   */
+  static splitTag(address: string): { base: string; tag?: string } {
+    const [localPart, domain] = address.toLowerCase().split('@');
+    const plus = localPart.indexOf('+');
+    if (plus === -1 || !domain) {
+      return { base: address.toLowerCase() };
+    }
+
+    const tag = localPart.substring(plus + 1);
+    return {
+      base: `${localPart.substring(0, plus)}@${domain}`,
+      tag: tag || undefined,
+    };
+  }
+
+  /**
+   * Lowercase and de-duplicate a set of addresses, preserving order
+   */
+  static unique(addresses: string[]): string[] {
+    return [...new Set(addresses.map(address => address.toLowerCase()))];
+  }
+}
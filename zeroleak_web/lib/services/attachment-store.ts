@@ -0,0 +1,102 @@
+/**
+ * Attachment Storage Service
+ * Stores attachment content in the blob store, addressed by SHA-256, so identical
+ * files received by several aliases (or several times) are kept once
+ */
+
+import { createHash } from 'crypto';
+import type { Prisma } from '@prisma/client';
+import prisma from '@/lib/prisma';
+import { getBlobStore } from '@/lib/services/blob-store';
+import type { ParsedAttachment } from '@/lib/services/email-parser';
+
+export interface SavedAttachment {
+  filename: string;
+  contentType: string;
+  size: number;
+  sha256: string;
+  contentId?: string;
+  inline: boolean;
+}
+
+export class AttachmentStore {
+  /**
+   * Write attachment content to the blob store and return metadata for the database
+   * @param tx When given, each blob is locked until the transaction ends, so cleanup can't
+   *   delete it before the caller has recorded its reference
+   */
+  static async save(attachments: ParsedAttachment[] = [], tx?: Prisma.TransactionClient): Promise<SavedAttachment[]> {
+    const store = getBlobStore();
+    const saved: SavedAttachment[] = [];
+
+    for (const attachment of attachments) {
+      const content = Buffer.from(attachment.content, 'base64');
+      const sha256 = createHash('sha256').update(content).digest('hex');
+      const key = this.key(sha256);
+
+      if (tx) await this.lock(key, tx);
+      if (!(await store.exists(key))) {
+        await store.put(key, content, attachment.contentType);
+      }
+
+      saved.push({
+        filename: attachment.filename,
+        contentType: attachment.contentType,
+        size: content.length,
+        sha256,
+        contentId: attachment.contentId,
+        inline: attachment.inline,
+      });
+    }
+
+    return saved;
+  }
+
+  /**
+   * Read attachment content by hash
+   */
+  static async read(sha256: string): Promise<Buffer | null> {
+    return getBlobStore().get(this.key(sha256));
+  }
+
+  /**
+   * Delete blobs nothing points at any more: no attachment row, and no queued job or
+   * dead letter still waiting to be processed. The check and the delete hold the blob's
+   * lock, so a job being enqueued with the same content can't lose it in between.
+   */
+  static async deleteUnreferenced(hashes: string[]): Promise<void> {
+    const store = getBlobStore();
+
+    for (const sha256 of new Set(hashes)) {
+      const key = this.key(sha256);
+
+      await prisma.$transaction(async tx => {
+        await this.lock(key, tx);
+
+        const queued = { payload: { path: ['attachments'], array_contains: [{ sha256 }] } };
+        const references =
+          await tx.attachment.count({ where: { sha256 } }) +
+          await tx.inboundJob.count({ where: { status: { not: 'COMPLETED' }, ...queued } }) +
+          await tx.inboundDeadLetter.count({ where: { requeuedAt: null, ...queued } });
+
+        if (references === 0) {
+          await store.delete(key);
+        }
+      });
+    }
+  }
+
+  /**
+   * Lock a blob key until the transaction ends
+   */
+  static async lock(key: string, tx: Prisma.TransactionClient): Promise<void> {
+    await tx.$executeRaw`SELECT pg_advisory_xact_lock(hashtext(${key}))`;
+  }
+
+  /**
+   * Blob key for a content hash, fanned out so no directory grows too large
+   */
+  static key(sha256: string): string {
+    return `attachments/${sha256.substring(0, 2)}/${sha256.substring(2, 4)}/${sha256}`;
+  }
+}
@@ -0,0 +1,143 @@
+/**
+ * Blob Storage Service
+ * Key/value byte storage with a local-filesystem backend and an S3-compatible backend
+ * (AWS S3, MinIO, R2...), selected with BLOB_STORE=local|s3
+ */
+
+import { promises as fs } from 'fs';
+import path from 'path';
+import { randomBytes } from 'crypto';
+import S3 from 'aws-sdk/clients/s3';
+
+export interface BlobStore {
+  put(key: string, data: Buffer, contentType?: string): Promise<void>;
+  get(key: string): Promise<Buffer | null>;
+  exists(key: string): Promise<boolean>;
+  delete(key: string): Promise<void>;
+}
+
+// Keys are generated internally, but never let one escape the storage root
+const KEY_PATTERN = /^[a-z0-9][a-z0-9/._-]*$/i;
+
+function assertValidKey(key: string) {
+  if (!KEY_PATTERN.test(key) || key.split('/').includes('..')) {
+    throw new Error(`Invalid blob key: ${key}`);
+  }
+}
+
+export class LocalBlobStore implements BlobStore {
+  constructor(private root: string) {}
+
+  async put(key: string, data: Buffer): Promise<void> {
+    const file = this.resolve(key);
+    await fs.mkdir(path.dirname(file), { recursive: true });
+
+    // Write then rename so readers never see a partial file
+    const temp = `${file}.${randomBytes(6).toString('hex')}.tmp`;
+    await fs.writeFile(temp, data);
+    await fs.rename(temp, file);
+  }
+
+  async get(key: string): Promise<Buffer | null> {
+    try {
+      return await fs.readFile(this.resolve(key));
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') return null;
+      throw error;
+    }
+  }
+
+  async exists(key: string): Promise<boolean> {
+    try {
+      await fs.access(this.resolve(key));
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
+  async delete(key: string): Promise<void> {
+    await fs.rm(this.resolve(key), { force: true });
+  }
+
+  private resolve(key: string): string {
+    assertValidKey(key);
+    return path.join(this.root, key);
+  }
+}
+
+export class S3BlobStore implements BlobStore {
+  constructor(private client: S3, private bucket: string) {}
+
+  async put(key: string, data: Buffer, contentType?: string): Promise<void> {
+    assertValidKey(key);
+    await this.client.putObject({
+      Bucket: this.bucket,
+      Key: key,
+      Body: data,
+      ContentType: contentType,
+    }).promise();
+  }
+
+  async get(key: string): Promise<Buffer | null> {
+    assertValidKey(key);
+    try {
+      const object = await this.client.getObject({ Bucket: this.bucket, Key: key }).promise();
+      return object.Body as Buffer;
+    } catch (error) {
+      if ((error as { code?: string }).code === 'NoSuchKey') return null;
+      throw error;
+    }
+  }
+
+  async exists(key: string): Promise<boolean> {
+    assertValidKey(key);
+    try {
+      await this.client.headObject({ Bucket: this.bucket, Key: key }).promise();
+      return true;
+    } catch (error) {
+      if ((error as { code?: string }).code === 'NotFound') return false;
+      throw error;
+    }
+  }
+
+  async delete(key: string): Promise<void> {
+    assertValidKey(key);
+    await this.client.deleteObject({ Bucket: this.bucket, Key: key }).promise();
+  }
+}
+
+let blobStore: BlobStore | undefined;
+
+/**
+ * The configured blob store (created once per process)
+ */
+export function getBlobStore(): BlobStore {
+  if (blobStore) return blobStore;
+
+  if (process.env.BLOB_STORE === 's3') {
+    const bucket = process.env.S3_BUCKET;
+    if (!bucket) {
+      throw new Error('S3_BUCKET not configured');
+    }
+
+    const endpoint = process.env.S3_ENDPOINT; // e.g. http://localhost:9000 for MinIO
+    const client = new S3({
+      endpoint,
+      region: process.env.S3_REGION || 'us-east-1',
+      accessKeyId: process.env.S3_ACCESS_KEY_ID,
+      secretAccessKey: process.env.S3_SECRET_ACCESS_KEY,
+      // MinIO and most self-hosted stores don't do virtual-hosted buckets
+      s3ForcePathStyle: process.env.S3_FORCE_PATH_STYLE
+        ? process.env.S3_FORCE_PATH_STYLE === 'true'
+        : Boolean(endpoint),
+      signatureVersion: 'v4',
+    });
+
+    blobStore = new S3BlobStore(client, bucket);
+  } else {
+    blobStore = new LocalBlobStore(path.resolve(process.env.BLOB_STORE_PATH || './storage'));
+  }
+
+  return blobStore;
+}
@@ -0,0 +1,343 @@
+/**
+ * Bounce Handling Service
+ * Turns delivery status notifications (DSNs sent to our SRS envelope addresses) and
+ * provider bounce webhooks into BOUNCED relay events, and pauses forwarding to a
+ * destination that keeps hard-bouncing
+ */
+
+import { Prisma } from '@prisma/client';
+import prisma from '@/lib/prisma';
+import { AddressParser } from '@/lib/services/address-parser';
+import type { ParsedEmail } from '@/lib/services/email-parser';
+
+export type BounceSource = 'dsn' | 'sendgrid' | 'mailgun' | 'postmark';
+
+export interface BounceReport {
+  source: BounceSource;
+  hard: boolean; // Permanent failure: the address doesn't accept mail
+  recipient?: string; // Address that bounced (a forwarding destination)
+  status?: string; // Enhanced status code, e.g. 5.1.1
+  diagnostic?: string;
+  emailMessageId?: string; // Our message ID, from the X-ZeroLeak-Message-Id header
+  providerMessageId?: string;
+  envelopeSender?: string; // Original sender decoded from the SRS address a DSN came back to
+}
+
+export interface BounceOutcome {
+  matched: boolean; // Mapped back to a forwarded EmailMessage
+  emailMessageId?: string;
+  suppressed: boolean; // Forwarding to the recipient is paused
+}
+
+type DbClient = Prisma.TransactionClient | typeof prisma;
+
+type JsonObject = Record<string, unknown>;
+
+// Hard bounces before forwarding to an address is paused
+const HARD_BOUNCE_THRESHOLD = parseInt(process.env.FORWARD_BOUNCE_THRESHOLD || '3', 10);
+
+const POSTMARK_HARD_TYPES = ['HardBounce', 'BadEmailAddress', 'ManuallyDeactivated'];
+
+export class BounceHandler {
+  /**
+   * Header added to every forward so a DSN quoting it can be traced to the message
+   */
+  static readonly MESSAGE_HEADER = 'X-ZeroLeak-Message-Id';
+
+  /**
+   * Read a DSN (RFC 3464). Returns null for anything else that reaches a bounce
+   * address, such as auto-replies.
+   */
+  static parseDsn(email: ParsedEmail): BounceReport | null {
+    const parts = (email.attachments || []).filter(att =>
+      /^(message\/(global-)?delivery-status|text\/rfc822-headers|message\/rfc822)$/i.test(att.contentType)
+    );
+    const decoded = parts.map(att => ({
+      contentType: att.contentType.toLowerCase(),
+      text: Buffer.from(att.content, 'base64').toString('utf8'),
+    }));
+
+    const statusText = decoded.find(part => part.contentType.includes('delivery-status'))?.text
+      || email.textBody
+      || '';
+
+    // Per-recipient fields follow the per-message block; the first failed or delayed recipient wins
+    const blocks = statusText.replace(/\r\n/g, '\n').split(/\n\s*\n/);
+    const block = blocks.find(b => /^action:\s*(failed|delayed)/im.test(b));
+    if (!block) return null;
+
+    const field = (name: string) => block
+      .match(new RegExp(`^${name}:\\s*(.+(?:\\n[ \\t].+)*)`, 'im'))?.[1]
+      .replace(/\s+/g, ' ')
+      .trim();
+
+    const action = field('Action')?.toLowerCase();
+    const status = field('Status')?.match(/\d\.\d{1,3}\.\d{1,3}/)?.[0];
+    const recipient = field('Final-Recipient') || field('Original-Recipient');
+
+    // The returned headers of our forward identify the message
+    const returned = decoded
+      .filter(part => !part.contentType.includes('delivery-status'))
+      .map(part => part.text)
+      .join('\n');
+    const searchable = `${returned}\n${email.rawMime ? Buffer.from(email.rawMime, 'base64').toString('utf8') : email.textBody || ''}`;
+
+    return {
+      source: 'dsn',
+      hard: action === 'failed' && (!status || status.startsWith('5')),
+      recipient: recipient?.replace(/^[^;]*;\s*/, '').toLowerCase(),
+      status,
+      diagnostic: field('Diagnostic-Code')?.replace(/^[^;]*;\s*/, ''),
+      emailMessageId: searchable.match(new RegExp(`^${this.MESSAGE_HEADER}:\\s*(\\S+)`, 'im'))?.[1],
+      providerMessageId: this.normalizeMessageId(returned.match(/^Message-ID:\s*(\S+)/im)?.[1]),
+    };
+  }
+
+  /**
+   * Bounce events from a provider's event webhook; other event types are skipped
+   */
+  static parseProviderEvents(source: Exclude<BounceSource, 'dsn'>, body: unknown): BounceReport[] {
+    switch (source) {
+      case 'sendgrid':
+        return this.parseSendGridEvents(body);
+      case 'mailgun':
+        return this.parseMailgunEvent(body);
+      case 'postmark':
+        return this.parsePostmarkEvent(body);
+    }
+  }
+
+  /**
+   * Work out which provider posted a bounce webhook from its body shape
+   */
+  static detectProvider(body: unknown): Exclude<BounceSource, 'dsn'> | null {
+    if (Array.isArray(body)) return 'sendgrid';
+
+    const record = body as Record<string, unknown> | null;
+    if (record?.['event-data']) return 'mailgun';
+    if (record?.RecordType) return 'postmark';
+    return null;
+  }
+
+  /**
+   * Map a bounce to the forwarded message, log it and update the recipient's bounce
+   * record. DSNs aren't authenticated, so a bounce only counts when it names one of our
+   * forwards and an address that forward was actually sent to.
+   */
+  static async record(report: BounceReport, db: DbClient = prisma): Promise<BounceOutcome> {
+    const message = await this.findMessage(report, db);
+    if (!message) {
+      return { matched: false, suppressed: false };
+    }
+
+    // The SRS address a DSN came back to encodes the sender of the message we forwarded
+    if (report.envelopeSender &&
+        AddressParser.extractAddress(message.fromAddress)?.toLowerCase() !== report.envelopeSender.toLowerCase()) {
+      return { matched: false, suppressed: false };
+    }
+
+    // Without a recipient in the report, the destination is only known if there was one
+    const forwardedTo = message.forwardedTo?.split(', ') || [];
+    const recipient = (report.recipient || (forwardedTo.length === 1 ? forwardedTo[0] : '')).toLowerCase();
+    const sentTo = recipient && await db.forwardAttempt.count({
+      where: { emailMessageId: message.id, destination: recipient },
+    });
+
+    if (!sentTo) {
+      return { matched: false, suppressed: false };
+    }
+
+    const userId = message.alias.userId;
+    const reason = report.diagnostic || report.status || 'Bounced';
+
+    await db.relayEvent.create({
+      data: {
+        aliasId: message.aliasId,
+        type: 'BOUNCED',
+        fromAddress: message.fromAddress,
+        toAddress: recipient,
+        subject: message.subject,
+        metadata: {
+          emailMessageId: message.id,
+          hard: report.hard,
+          status: report.status,
+          diagnostic: report.diagnostic,
+          source: report.source,
+        },
+      },
+    });
+
+    // The provider accepted it but the mailbox didn't: it was never really delivered
+    if (report.hard) {
+      await db.emailMessage.update({
+        where: { id: message.id },
+        data: {
+          status: 'FAILED',
+          errorMessage: `Bounced: ${reason}`,
+          nextRetryAt: null,
+        },
+      });
+    }
+
+    const suppression = await db.forwardingSuppression.upsert({
+      where: { userId_address: { userId, address: recipient } },
+      create: {
+        userId,
+        address: recipient,
+        hardBounces: report.hard ? 1 : 0,
+        softBounces: report.hard ? 0 : 1,
+        lastBounceAt: new Date(),
+        lastReason: reason,
+      },
+      update: {
+        hardBounces: report.hard ? { increment: 1 } : undefined,
+        softBounces: report.hard ? undefined : { increment: 1 },
+        lastBounceAt: new Date(),
+        lastReason: reason,
+      },
+    });
+
+    let suppressed = !!suppression.suppressedAt;
+
+    if (!suppressed && report.hard && suppression.hardBounces >= HARD_BOUNCE_THRESHOLD) {
+      await db.forwardingSuppression.update({
+        where: { id: suppression.id },
+        data: { suppressedAt: new Date() },
+      });
+      suppressed = true;
+
+      console.warn(`Pausing forwarding to ${recipient} after ${suppression.hardBounces} hard bounces`);
+
+      await db.auditLog.create({
+        data: {
+          userId,
+          action: 'FORWARDING_PAUSED',
+          resource: `forwarding:${recipient}`,
+          metadata: {
+            address: recipient,
+            hardBounces: suppression.hardBounces,
+            lastReason: reason,
+          },
+        },
+      });
+    }
+
+    return { matched: true, emailMessageId: message.id, suppressed };
+  }
+
+  /**
+   * Whether the user's forwarding to an address is paused
+   */
+  static async isSuppressed(userId: string, address: string, db: DbClient = prisma): Promise<boolean> {
+    const suppression = await db.forwardingSuppression.findUnique({
+      where: { userId_address: { userId, address: address.toLowerCase() } },
+      select: { suppressedAt: true },
+    });
+    return !!suppression?.suppressedAt;
+  }
+
+  /**
+   * Resume the user's forwarding to an address and start its bounce count afresh
+   */
+  static async resume(userId: string, address: string, db: DbClient = prisma): Promise<void> {
+    await db.forwardingSuppression.updateMany({
+      where: { userId, address: address.toLowerCase() },
+      data: {
+        suppressedAt: null,
+        hardBounces: 0,
+        softBounces: 0,
+      },
+    });
+  }
+
+  /**
+   * Provider message IDs are compared without angle brackets
+   */
+  static normalizeMessageId(messageId: string | undefined | null): string | undefined {
+    const trimmed = messageId?.trim().replace(/^<|>$/g, '');
+    return trimmed || undefined;
+  }
+
+  private static async findMessage(report: BounceReport, db: DbClient) {
+    if (report.emailMessageId) {
+      const message = await db.emailMessage.findUnique({
+        where: { id: report.emailMessageId },
+        include: { alias: true },
+      });
+      if (message) return message;
+    }
+
+    if (report.providerMessageId) {
+      const attempt = await db.forwardAttempt.findFirst({
+        where: { providerMessageId: report.providerMessageId, success: true },
+        include: { emailMessage: { include: { alias: true } } },
+        orderBy: { createdAt: 'desc' },
+      });
+      if (attempt) return attempt.emailMessage;
+    }
+
+    return null;
+  }
+
+  /**
+   * SendGrid event webhook: an array of events. `bounce` is a hard bounce unless
+   * its type is `blocked`; `deferred` is a soft one.
+   */
+  private static parseSendGridEvents(body: unknown): BounceReport[] {
+    if (!Array.isArray(body)) return [];
+
+    return (body as JsonObject[])
+      .filter(event => event?.event === 'bounce' || event?.event === 'deferred')
+      .map(event => ({
+        source: 'sendgrid' as const,
+        hard: event.event === 'bounce' && event.type !== 'blocked',
+        recipient: str(event.email)?.toLowerCase(),
+        status: str(event.status),
+        diagnostic: str(event.reason) || str(event.response),
+        // sg_message_id is the X-Message-Id from the send API plus a ".filter..." suffix
+        providerMessageId: str(event.sg_message_id)?.split('.')[0],
+      }));
+  }
+
+  /**
+   * Mailgun webhook: one `failed` event with a permanent or temporary severity
+   */
+  private static parseMailgunEvent(body: unknown): BounceReport[] {
+    const data = (body as JsonObject)?.['event-data'] as JsonObject | undefined;
+    if (data?.event !== 'failed') return [];
+
+    const delivery = (data['delivery-status'] || {}) as JsonObject;
+    const headers = ((data.message as JsonObject | undefined)?.headers || {}) as JsonObject;
+
+    return [{
+      source: 'mailgun',
+      hard: data.severity === 'permanent',
+      recipient: str(data.recipient)?.toLowerCase(),
+      status: str(delivery['enhanced-code']) || (delivery.code ? String(delivery.code) : undefined),
+      diagnostic: str(delivery.message) || str(delivery.description) || str(data.reason),
+      emailMessageId: str(headers[this.MESSAGE_HEADER.toLowerCase()]),
+      providerMessageId: this.normalizeMessageId(str(headers['message-id'])),
+    }];
+  }
+
+  /**
+   * Postmark bounce webhook: one bounce with a Type such as HardBounce or SoftBounce
+   */
+  private static parsePostmarkEvent(body: unknown): BounceReport[] {
+    const record = body as JsonObject;
+    if (record?.RecordType !== 'Bounce') return [];
+
+    return [{
+      source: 'postmark',
+      hard: POSTMARK_HARD_TYPES.includes(str(record.Type) || ''),
+      recipient: str(record.Email)?.toLowerCase(),
+      status: str(record.Type),
+      diagnostic: str(record.Details) || str(record.Description),
+      providerMessageId: this.normalizeMessageId(str(record.MessageID)),
+    }];
+  }
+}
+
+function str(value: unknown): string | undefined {
+  return typeof value === 'string' && value ? value : undefined;
+}
@@ -0,0 +1,187 @@
+/**
+ * Catch-All Service
+ * Auto-creates aliases on verified custom domains the first time mail arrives
+ * for an unknown local part, so addresses can be made up at signup time
+ */
+
+import { randomBytes } from 'crypto';
+import { Prisma, type Alias, type Domain, type User } from '@prisma/client';
+import prisma from '@/lib/prisma';
+import { canCreateAlias } from '@/lib/subscriptions';
+import { AddressParser } from '@/lib/services/address-parser';
+
+type DbClient = Prisma.TransactionClient | typeof prisma;
+
+export type CatchAllDecision =
+  | { accepted: true; domain: Domain; localPart: string }
+  | { accepted: false; reason: string };
+
+export type CatchAllCreation =
+  | { created: true; alias: Alias & { user: User } }
+  | { created: false; reason: string; limitReached: boolean };
+
+const LOCAL_PART_PATTERN = /^[a-z0-9][a-z0-9._-]{0,63}$/;
+
+// Role-style local parts that say nothing about who the address was given to
+const GENERIC_LOCAL_PARTS = new Set([
+  'info', 'hello', 'hi', 'contact', 'mail', 'email', 'me', 'inbox', 'test',
+  'signup', 'register', 'account', 'accounts', 'shop', 'shopping', 'news', 'newsletter',
+]);
+
+// Second-level labels under country TLDs (amazon.co.uk → amazon)
+const SECOND_LEVEL_LABELS = new Set(['co', 'com', 'org', 'net', 'ac', 'gov', 'edu', 'ne', 'or']);
+
+export class CatchAll {
+  /**
+   * Decide whether an unknown address on a custom domain may become an alias
+   */
+  static async evaluate(address: string, db: DbClient = prisma): Promise<CatchAllDecision> {
+    const { base } = AddressParser.splitTag(address);
+    const [localPart, domainName] = base.split('@');
+    if (!localPart || !domainName) {
+      return { accepted: false, reason: 'Invalid address' };
+    }
+
+    const domain = await db.domain.findUnique({
+      where: { domain: domainName },
+    });
+
+    if (!domain?.verified || !domain.catchAllEnabled) {
+      return { accepted: false, reason: 'Catch-all disabled' };
+    }
+
+    if (!LOCAL_PART_PATTERN.test(localPart)) {
+      return { accepted: false, reason: 'Invalid local part' };
+    }
+
+    if (domain.catchAllPattern && !this.matchesPattern(localPart, domain.catchAllPattern)) {
+      return { accepted: false, reason: 'Local part does not match catch-all pattern' };
+    }
+
+    const createdToday = await this.countCreatedToday(domain.domain, db);
+    if (createdToday >= domain.catchAllDailyLimit) {
+      return { accepted: false, reason: 'Catch-all daily limit reached' };
+    }
+
+    return { accepted: true, domain, localPart };
+  }
+
+  /**
+   * Create the alias for an unknown address. Not created when catch-all doesn't apply,
+   * or when the domain owner is already at their plan's alias limit (`limitReached`).
+   * Pass the surrounding transaction so the limit check and the insert can't interleave
+   * with another message creating an alias for the same user.
+   */
+  static async createAlias(address: string, senderAddress: string, db: DbClient = prisma): Promise<CatchAllCreation> {
+    const decision = await this.evaluate(address, db);
+    if (!decision.accepted) {
+      return { created: false, reason: decision.reason, limitReached: false };
+    }
+
+    const { domain, localPart } = decision;
+
+    const user = await db.user.findUnique({
+      where: { id: domain.userId },
+    });
+
+    if (!user) {
+      return { created: false, reason: 'Domain owner not found', limitReached: false };
+    }
+
+    // Held until the transaction commits, so concurrent messages count each other's aliases
+    await db.$executeRaw`SELECT pg_advisory_xact_lock(hashtext(${`alias-limit:${user.id}`}))`;
+
+    if (!(await canCreateAlias(user.id, db))) {
+      return { created: false, reason: 'Alias limit reached for plan', limitReached: true };
+    }
+
+    const merchant = this.inferMerchant(localPart, senderAddress);
+
+    const alias = await db.alias.create({
+      data: {
+        userId: user.id,
+        localPart,
+        domain: domain.domain,
+        merchant,
+        status: 'ACTIVE',
+        autoCreated: true,
+        decoySeeded: true,
+        decoyToken: randomBytes(16).toString('hex'),
+        forwardTo: user.email,
+      },
+      include: {
+        user: true,
+      },
+    });
+
+    await db.auditLog.create({
+      data: {
+        userId: user.id,
+        action: 'alias.created',
+        resource: alias.id,
+        metadata: {
+          merchant,
+          email: `${localPart}@${domain.domain}`,
+          source: 'catch_all',
+          firstSender: senderAddress,
+        },
+      },
+    });
+
+    return { created: true, alias };
+  }
+
+  /**
+   * Guess the merchant: a meaningful local part wins ("amazon-2024" → "Amazon"),
+   * otherwise the sender's registrable domain ("news.ebay.co.uk" → "Ebay")
+   */
+  static inferMerchant(localPart: string, senderAddress?: string): string {
+    const word = localPart
+      .split(/[._-]/)
+      .find(part => /^[a-z]{3,}$/.test(part) && !GENERIC_LOCAL_PARTS.has(part));
+
+    if (word) return this.capitalize(word);
+
+    const senderDomain = senderAddress?.toLowerCase().split('@')[1];
+    if (senderDomain) {
+      const labels = senderDomain.split('.').filter(Boolean);
+      labels.pop(); // TLD
+      if (labels.length > 1 && SECOND_LEVEL_LABELS.has(labels[labels.length - 1])) {
+        labels.pop();
+      }
+      const name = labels.pop();
+      if (name) return this.capitalize(name);
+    }
+
+    return this.capitalize(localPart);
+  }
+
+  /**
+   * Match a local part against a `*`-wildcard pattern (anchored, case-insensitive)
+   */
+  static matchesPattern(localPart: string, pattern: string): boolean {
+    const source = pattern
+      .toLowerCase()
+      .split('*')
+      .map(segment => segment.replace(/[.+?^${}()|[\]\\]/g, '\\$&'))
+      .join('.*');
+    return new RegExp(`^${source}$`).test(localPart.toLowerCase());
+  }
+
+  private static async countCreatedToday(domain: string, db: DbClient): Promise<number> {
+    const startOfDay = new Date();
+    startOfDay.setUTCHours(0, 0, 0, 0);
+
+    return db.alias.count({
+      where: {
+        domain,
+        autoCreated: true,
+        createdAt: { gte: startOfDay },
+      },
+    });
+  }
+
+  private static capitalize(value: string): string {
+    return value.charAt(0).toUpperCase() + value.slice(1);
+  }
+}
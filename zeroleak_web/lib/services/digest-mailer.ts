@@ -0,0 +1,400 @@
+/**
+ * Digest Mailer Service
+ * Messages to aliases in digest mode are stored but not forwarded. On the alias's
+ * schedule (hourly, daily or weekly) they go out as one summary email per user and
+ * destination, grouped by merchant and alias, outside the user's quiet hours.
+ */
+
+import { Prisma, type Alias, type DeliveryMode, type EmailMessage, type User } from '@prisma/client';
+import prisma from '@/lib/prisma';
+import { BounceHandler } from '@/lib/services/bounce-handler';
+import { EmailForwarder } from '@/lib/services/email-forwarder';
+import { ForwardingDestinations } from '@/lib/services/forwarding-destinations';
+
+export type DigestFrequency = Exclude<DeliveryMode, 'IMMEDIATE'>;
+
+export interface DigestOptions {
+  limit?: number; // Users per run
+  deadline?: number; // Epoch ms after which no new user is started
+}
+
+export interface DigestStats {
+  sent: number;
+  failed: number;
+  messages: number;
+  quietHours: number; // Users skipped because it is quiet hours for them
+}
+
+export interface DigestContent {
+  subject: string;
+  textBody: string;
+  htmlBody: string;
+}
+
+type HeldMessage = EmailMessage & { alias: Alias };
+
+const FREQUENCIES: DigestFrequency[] = ['HOURLY', 'DAILY', 'WEEKLY'];
+
+const PERIOD_MS: Record<DigestFrequency, number> = {
+  HOURLY: 60 * 60 * 1000,
+  DAILY: 24 * 60 * 60 * 1000,
+  WEEKLY: 7 * 24 * 60 * 60 * 1000,
+};
+
+// Cron runs drift; a digest this much early still counts as due, so an hourly one isn't skipped
+const SCHEDULE_SLACK_MS = 5 * 60 * 1000;
+
+// Messages listed per alias; the rest are counted and linked
+const MAX_LISTED_PER_ALIAS = 20;
+
+const SNIPPET_LENGTH = 160;
+
+export class DigestMailer {
+  /**
+   * Send every digest that is due
+   */
+  static async runDue(options: DigestOptions = {}): Promise<DigestStats> {
+    const stats: DigestStats = { sent: 0, failed: 0, messages: 0, quietHours: 0 };
+    const now = new Date();
+
+    // Longest waiting first, so users past the limit are at the front of the next run
+    const users = await prisma.user.findMany({
+      where: {
+        aliases: {
+          some: { status: 'ACTIVE', emailMessages: { some: { heldForDigest: true, digestedAt: null } } },
+        },
+      },
+      orderBy: [{ digestCheckedAt: { sort: 'asc', nulls: 'first' } }, { id: 'asc' }],
+      take: options.limit || 100,
+    });
+
+    for (const user of users) {
+      if (options.deadline && Date.now() >= options.deadline) break;
+
+      await prisma.user.update({
+        where: { id: user.id },
+        data: { digestCheckedAt: now },
+      });
+
+      if (this.inQuietHours(user, now)) {
+        stats.quietHours++;
+        continue;
+      }
+
+      const result = await this.sendForUser(user, now);
+      stats.sent += result.sent;
+      stats.failed += result.failed;
+      stats.messages += result.messages;
+    }
+
+    return stats;
+  }
+
+  /**
+   * Whether it is the user's quiet hours. The window may wrap past midnight (22 → 7).
+   */
+  static inQuietHours(user: Pick<User, 'timezone' | 'quietHoursStart' | 'quietHoursEnd'>, now: Date): boolean {
+    const { quietHoursStart: start, quietHoursEnd: end } = user;
+    if (start === null || end === null || start === end) return false;
+
+    const hour = this.localHour(now, user.timezone);
+    return start < end
+      ? hour >= start && hour < end
+      : hour >= start || hour < end;
+  }
+
+  /**
+   * Whether a time zone name is one Intl understands
+   */
+  static isValidTimezone(timezone: string): boolean {
+    try {
+      new Intl.DateTimeFormat('en-US', { timeZone: timezone });
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
+  /**
+   * Summary email for held messages: grouped by merchant, then alias, newest first,
+   * each with its subject, a snippet and a link into the inbox
+   */
+  static build(messages: HeldMessage[]): DigestContent {
+    const appUrl = this.appUrl();
+    const groups = new Map<string, Map<string, HeldMessage[]>>();
+
+    for (const message of [...messages].sort((a, b) => b.receivedAt.getTime() - a.receivedAt.getTime())) {
+      const merchant = message.alias.merchant || 'Other';
+      const aliasEmail = `${message.alias.localPart}@${message.alias.domain}`;
+      const byAlias = groups.get(merchant) || new Map<string, HeldMessage[]>();
+      byAlias.set(aliasEmail, [...(byAlias.get(aliasEmail) || []), message]);
+      groups.set(merchant, byAlias);
+    }
+
+    const merchants = [...groups.keys()].sort((a, b) => a.localeCompare(b));
+    const count = messages.length;
+    const text: string[] = [`${count} new message${count === 1 ? '' : 's'} in your ZeroLeak inbox`, ''];
+    const html: string[] = [
+      '<div style="font-family: sans-serif; color: #111827;">',
+      `<h2 style="font-size: 18px;">${count} new message${count === 1 ? '' : 's'} in your ZeroLeak inbox</h2>`,
+    ];
+
+    for (const merchant of merchants) {
+      text.push(`== ${merchant} ==`);
+      html.push(`<h3 style="font-size: 16px; margin: 24px 0 8px;">${escapeHtml(merchant)}</h3>`);
+
+      for (const [aliasEmail, aliasMessages] of groups.get(merchant)!) {
+        text.push(`${aliasEmail} (${aliasMessages.length})`);
+        html.push(`<p style="margin: 8px 0 4px; font-size: 13px; color: #6b7280;"><code>${escapeHtml(aliasEmail)}</code> (${aliasMessages.length})</p>`);
+        html.push('<ul style="margin: 0; padding-left: 20px;">');
+
+        for (const message of aliasMessages.slice(0, MAX_LISTED_PER_ALIAS)) {
+          const link = `${appUrl}/dashboard/inbox/${message.id}`;
+          const subject = message.subject || '(No subject)';
+          const snippet = this.snippet(message);
+
+          text.push(`  - ${subject} — from ${message.fromAddress}`);
+          if (snippet) text.push(`    ${snippet}`);
+          text.push(`    ${link}`);
+
+          html.push(
+            '<li style="margin-bottom: 8px;">' +
+            `<a href="${link}" style="color: #2563eb; font-weight: 600;">${escapeHtml(subject)}</a>` +
+            ` <span style="color: #6b7280; font-size: 13px;">from ${escapeHtml(message.fromAddress)}</span>` +
+            (snippet ? `<br><span style="color: #374151; font-size: 13px;">${escapeHtml(snippet)}</span>` : '') +
+            '</li>'
+          );
+        }
+
+        const more = aliasMessages.length - MAX_LISTED_PER_ALIAS;
+        if (more > 0) {
+          text.push(`  ...and ${more} more: ${appUrl}/dashboard/inbox`);
+          html.push(`<li><a href="${appUrl}/dashboard/inbox" style="color: #2563eb;">and ${more} more</a></li>`);
+        }
+
+        html.push('</ul>');
+      }
+
+      text.push('');
+    }
+
+    text.push('Change how often you get digests from the Aliases page.');
+    html.push('<p style="margin-top: 24px; font-size: 12px; color: #6b7280;">Change how often you get digests from the Aliases page.</p>');
+    html.push('</div>');
+
+    return {
+      subject: `ZeroLeak digest: ${count} new message${count === 1 ? '' : 's'}`,
+      textBody: text.join('\n'),
+      htmlBody: html.join('\n'),
+    };
+  }
+
+  /**
+   * Send the user's due digests: one email per destination, covering the aliases
+   * that forward there. Each send is linked to the messages it covered, so a failed
+   * destination gets them again on the next run without resending to the others, and
+   * a message is only marked once every destination got it. The delivery row is claimed
+   * before sending, one per destination and hour, so overlapping runs can't both send.
+   */
+  private static async sendForUser(user: User, now: Date) {
+    const result = { sent: 0, failed: 0, messages: 0 };
+
+    const due = await this.dueFrequencies(user.id, now);
+    const held = await prisma.emailMessage.findMany({
+      // Killed or suspended aliases don't deliver, not even in a digest
+      where: { heldForDigest: true, digestedAt: null, alias: { userId: user.id, status: 'ACTIVE' } },
+      include: {
+        alias: true,
+        digestDeliveries: { select: { destination: true, success: true } },
+      },
+      orderBy: { receivedAt: 'asc' },
+    });
+
+    // An alias switched back to immediate forwarding releases what it was holding right away,
+    // and messages already in a digest that failed somewhere are retried without waiting
+    const messages = held.filter(message =>
+      message.alias.deliveryMode === 'IMMEDIATE' ||
+      due.includes(message.alias.deliveryMode) ||
+      message.digestDeliveries.length > 0
+    );
+    if (messages.length === 0) return result;
+
+    const byDestination = new Map<string, HeldMessage[]>();
+    const destinationsByAlias = new Map<string, string[]>();
+    const delivered = new Map<string, Set<string>>(); // Message ID → destinations that got it
+
+    for (const message of messages) {
+      let destinations = destinationsByAlias.get(message.aliasId);
+      if (!destinations) {
+        // Destinations paused after repeated bounces are skipped, like immediate forwards
+        destinations = [];
+        for (const destination of await ForwardingDestinations.resolve(message.alias)) {
+          if (!(await BounceHandler.isSuppressed(user.id, destination))) {
+            destinations.push(destination);
+          }
+        }
+        destinationsByAlias.set(message.aliasId, destinations);
+      }
+
+      delivered.set(message.id, new Set(
+        message.digestDeliveries.filter(delivery => delivery.success).map(delivery => delivery.destination)
+      ));
+
+      for (const destination of destinations) {
+        if (delivered.get(message.id)!.has(destination)) continue;
+        byDestination.set(destination, [...(byDestination.get(destination) || []), message]);
+      }
+    }
+
+    const frequencies = [...new Set(messages.map(message => message.alias.deliveryMode))];
+    const encryptionKeys = await ForwardingDestinations.encryptionKeys(user.id, [...byDestination.keys()]);
+    const period = new Date(now);
+    period.setUTCMinutes(0, 0, 0);
+
+    for (const [destination, destinationMessages] of byDestination) {
+      const delivery = await this.claim(user.id, destination, period, frequencies, destinationMessages);
+      if (!delivery) continue;
+
+      const content = this.build(destinationMessages);
+      let sendResult;
+
+      try {
+        sendResult = await EmailForwarder.forward({
+          from: `noreply@${this.relayDomain()}`,
+          to: destination,
+          ...content,
+          encryption: encryptionKeys.get(destination),
+        });
+      } catch (error) {
+        console.error(`Error sending digest to ${destination}:`, error);
+        sendResult = {
+          success: false,
+          error: error instanceof Error ? error.message : 'Unknown error',
+          provider: 'none',
+        };
+      }
+
+      await prisma.digestDelivery.update({
+        where: { id: delivery.id },
+        data: {
+          success: sendResult.success,
+          provider: sendResult.provider === 'none' ? null : sendResult.provider,
+          error: sendResult.error,
+        },
+      });
+
+      if (sendResult.success) {
+        result.sent++;
+        for (const message of destinationMessages) {
+          delivered.get(message.id)!.add(destination);
+        }
+      } else {
+        result.failed++;
+      }
+    }
+
+    // Messages of aliases without a verified destination have nowhere to go but the inbox
+    const digested = messages.filter(message =>
+      destinationsByAlias.get(message.aliasId)!.every(destination => delivered.get(message.id)!.has(destination))
+    );
+
+    if (digested.length > 0) {
+      await prisma.emailMessage.updateMany({
+        where: { id: { in: digested.map(message => message.id) } },
+        data: { digestedAt: now },
+      });
+      result.messages = digested.length;
+    }
+
+    return result;
+  }
+
+  /**
+   * Record the digest before it is sent. Returns null when another run already claimed
+   * this destination for the hour. A run that dies mid-send leaves the claim unsuccessful,
+   * so its messages are retried next hour like any other failed digest.
+   */
+  private static async claim(
+    userId: string,
+    destination: string,
+    period: Date,
+    frequencies: DeliveryMode[],
+    messages: HeldMessage[]
+  ) {
+    try {
+      return await prisma.digestDelivery.create({
+        data: {
+          userId,
+          frequencies,
+          destination,
+          period,
+          messageCount: messages.length,
+          messages: { connect: messages.map(message => ({ id: message.id })) },
+          success: false,
+        },
+      });
+    } catch (error) {
+      if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+        return null;
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Schedules whose last successful digest is at least one period old
+   */
+  private static async dueFrequencies(userId: string, now: Date): Promise<DigestFrequency[]> {
+    const due: DigestFrequency[] = [];
+
+    for (const frequency of FREQUENCIES) {
+      const last = await prisma.digestDelivery.findFirst({
+        where: { userId, success: true, frequencies: { has: frequency } },
+        orderBy: { sentAt: 'desc' },
+        select: { sentAt: true },
+      });
+
+      if (!last || now.getTime() - last.sentAt.getTime() >= PERIOD_MS[frequency] - SCHEDULE_SLACK_MS) {
+        due.push(frequency);
+      }
+    }
+
+    return due;
+  }
+
+  private static snippet(message: EmailMessage): string {
+    const source = message.textBody || (message.htmlBody || '')
+      .replace(/<(style|script)[^>]*>[\s\S]*?<\/\1>/gi, ' ')
+      .replace(/<[^>]+>/g, ' ');
+
+    const collapsed = source.replace(/\s+/g, ' ').trim();
+    return collapsed.length > SNIPPET_LENGTH
+      ? `${collapsed.substring(0, SNIPPET_LENGTH - 1)}…`
+      : collapsed;
+  }
+
+  /**
+   * Hour of the day (0-23) in a time zone; an unknown zone falls back to UTC
+   */
+  private static localHour(now: Date, timezone: string): number {
+    const zone = this.isValidTimezone(timezone) ? timezone : 'UTC';
+    const hour = new Intl.DateTimeFormat('en-US', { timeZone: zone, hour: 'numeric', hourCycle: 'h23' }).format(now);
+    return parseInt(hour, 10);
+  }
+
+  private static appUrl(): string {
+    return (process.env.APP_URL || 'https://zeroleak.app').replace(/\/+$/, '');
+  }
+
+  private static relayDomain(): string {
+    return (process.env.RELAY_DOMAIN || 'mail.zeroleak.app').toLowerCase();
+  }
+}
+
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
@@ -1,9 +1,16 @@
 /**
  * Email Forwarding Service
  * Handles forwarding received emails to users' real email addresses
- * Supports multiple providers: SendGrid, Mailgun, Postmark, Amazon SES
+ * Supports multiple providers: SendGrid, Mailgun, Postmark, Amazon SES, or any SMTP relay
  */
 
+import SESV2 from 'aws-sdk/clients/sesv2';
+import nodemailer, { type Transporter } from 'nodemailer';
+import MailComposer from 'nodemailer/lib/mail-composer';
+import { CircuitBreaker } from '@/lib/circuit-breaker';
+import { MailEncryption, type EncryptionKey } from '@/lib/services/mail-encryption';
+import { HeaderPolicy, type HeaderPolicyOptions } from '@/lib/services/header-policy';
+
 interface ForwardEmailOptions {
   from: string;
   to: string;
@@ -11,8 +18,12 @@ interface ForwardEmailOptions {
   textBody?: string;
   htmlBody?: string;
   replyTo?: string;
-  headers?: Record<string, string>;
+  envelopeFrom?: string; // Envelope sender (where bounces go), e.g. an SRS address; providers that manage their own return path ignore it
+  headers?: Record<string, string>; // Only headers the header policy allows are sent
+  headerPolicy?: HeaderPolicyOptions;
   attachments?: EmailAttachment[];
+  encryption?: EncryptionKey; // Recipient's key: the message is only ever sent encrypted to it
+  rawMime?: Buffer; // Message built in advance (e.g. encrypted), sent as-is
 }
 
 interface EmailAttachment {
@@ -22,28 +33,119 @@ interface EmailAttachment {
   size: number;
 }
 
-interface ForwardResult {
+export interface ForwardResult {
   success: boolean;
   messageId?: string;
+  headerMessageId?: string; // Message-ID header we set (providers may still replace it)
   error?: string;
   provider: string;
+  statusCode?: number; // HTTP status from API providers
+  responseCode?: number; // SMTP reply code, when the provider speaks SMTP
+  permanent?: boolean; // 5xx: retrying won't help
+  failedAttempts?: { provider: string; error?: string }[]; // Providers tried before this result
 }
 
-type EmailProvider = 'sendgrid' | 'mailgun' | 'postmark' | 'ses';
+type EmailProvider = 'sendgrid' | 'mailgun' | 'postmark' | 'ses' | 'smtp';
+
+// Default order when EMAIL_PROVIDERS isn't set: every provider with credentials
+const PROVIDER_CREDENTIALS: [EmailProvider, string][] = [
+  ['sendgrid', 'SENDGRID_API_KEY'],
+  ['mailgun', 'MAILGUN_API_KEY'],
+  ['postmark', 'POSTMARK_SERVER_TOKEN'],
+  ['ses', 'AWS_SES_ACCESS_KEY'],
+  ['smtp', 'SMTP_RELAY_HOST'],
+];
+
+// Providers that accept a complete MIME message, which encrypted mail needs
+const RAW_MIME_PROVIDERS: EmailProvider[] = ['mailgun', 'ses', 'smtp'];
 
 export class EmailForwarder {
   private static provider: EmailProvider;
+  private static smtpTransport?: Transporter;
+  private static circuit = new CircuitBreaker(
+    parseInt(process.env.EMAIL_PROVIDER_FAILURE_THRESHOLD || '3', 10),
+    parseInt(process.env.EMAIL_PROVIDER_COOLDOWN_MS || '60000', 10)
+  );
 
   static configure(provider: EmailProvider = 'sendgrid') {
     this.provider = provider;
   }
 
   /**
-   * Forward an email to the user's real email address
+   * Forward an email to the user's real email address, failing over down the provider
+   * list on transport errors, 5xx and rate limiting. Providers whose circuit is open are
+   * skipped until their cool-down ends. Encrypted mail only goes through providers
+   * that take raw MIME; it is never sent in plaintext instead.
    */
   static async forward(options: ForwardEmailOptions): Promise<ForwardResult> {
-    const provider = this.provider || this.detectProvider();
+    options = { ...options, headers: HeaderPolicy.apply(options.headers, options.headerPolicy) };
+
+    let chain = this.provider ? [this.provider] : this.providerChain();
+
+    if (options.encryption) {
+      chain = chain.filter(provider => RAW_MIME_PROVIDERS.includes(provider));
+      if (chain.length === 0) {
+        return {
+          success: false,
+          error: 'Encrypted forwarding needs a provider that sends raw MIME (Mailgun, SES or SMTP)',
+          provider: 'none',
+        };
+      }
+
+      try {
+        options = { ...options, rawMime: await this.buildEncryptedMime(options) };
+      } catch (error) {
+        return {
+          success: false,
+          error: `Encryption failed: ${error instanceof Error ? error.message : 'Unknown error'}`,
+          provider: 'none',
+          permanent: true,
+        };
+      }
+    }
+
+    // If every provider is tripped, trying them beats dropping the message
+    const available = chain.filter(provider => this.circuit.isAvailable(provider));
+    const order = available.length > 0 ? available : chain;
+
+    const failedAttempts: { provider: string; error?: string }[] = [];
+    let result: ForwardResult | undefined;
 
+    for (const provider of order) {
+      try {
+        result = await this.forwardVia(provider, options);
+      } catch (error) {
+        // Misconfiguration or an unexpected throw: treat like a transport failure
+        result = {
+          success: false,
+          error: error instanceof Error ? error.message : 'Unknown error',
+          provider,
+        };
+      }
+
+      if (result.success) {
+        this.circuit.recordSuccess(provider);
+        break;
+      }
+
+      if (!this.shouldFailOver(result)) break;
+
+      this.circuit.recordFailure(provider);
+      failedAttempts.push({ provider, error: result.error });
+      console.warn(`Forwarding via ${provider} failed, trying next provider: ${result.error}`);
+    }
+
+    return {
+      ...result!,
+      headerMessageId: options.headers?.['Message-ID'],
+      failedAttempts: failedAttempts.length > 0 ? failedAttempts : undefined,
+    };
+  }
+
+  /**
+   * Send through one specific provider
+   */
+  private static async forwardVia(provider: EmailProvider, options: ForwardEmailOptions): Promise<ForwardResult> {
     switch (provider) {
       case 'sendgrid':
         return this.forwardViaSendGrid(options);
@@ -53,6 +155,8 @@ export class EmailForwarder {
         return this.forwardViaPostmark(options);
       case 'ses':
         return this.forwardViaSES(options);
+      case 'smtp':
+        return this.forwardViaSMTP(options);
       default:
         throw new Error(`Unsupported email provider: ${provider}`);
     }
@@ -105,6 +209,7 @@ export class EmailForwarder {
           success: false,
           error: `SendGrid error: ${error}`,
           provider: 'sendgrid',
+          statusCode: response.status,
         };
       }
 
@@ -135,6 +240,11 @@ export class EmailForwarder {
       throw new Error('MAILGUN_API_KEY or MAILGUN_DOMAIN not configured');
     }
 
+    // A prebuilt message goes to the MIME endpoint untouched
+    if (options.rawMime) {
+      return this.forwardViaMailgunMime(options, apiKey, domain);
+    }
+
     try {
       const formData = new FormData();
       formData.append('from', options.from);
@@ -150,6 +260,14 @@ export class EmailForwarder {
         }
       }
 
+      for (const att of options.attachments || []) {
+        formData.append(
+          'attachment',
+          new Blob([Buffer.from(att.content, 'base64')], { type: att.contentType }),
+          att.filename
+        );
+      }
+
       const response = await fetch(
         `https://api.mailgun.net/v3/${domain}/messages`,
         {
@@ -167,6 +285,57 @@ export class EmailForwarder {
           success: false,
           error: `Mailgun error: ${error}`,
           provider: 'mailgun',
+          statusCode: response.status,
+        };
+      }
+
+      const result = await response.json();
+
+      return {
+        success: true,
+        messageId: result.id,
+        provider: 'mailgun',
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error',
+        provider: 'mailgun',
+      };
+    }
+  }
+
+  /**
+   * Send a complete MIME message through Mailgun's MIME endpoint
+   */
+  private static async forwardViaMailgunMime(
+    options: ForwardEmailOptions,
+    apiKey: string,
+    domain: string
+  ): Promise<ForwardResult> {
+    try {
+      const formData = new FormData();
+      formData.append('to', options.to);
+      formData.append('message', new Blob([new Uint8Array(options.rawMime!)], { type: 'message/rfc822' }), 'message.eml');
+
+      const response = await fetch(
+        `https://api.mailgun.net/v3/${domain}/messages.mime`,
+        {
+          method: 'POST',
+          headers: {
+            'Authorization': `Basic ${Buffer.from(`api:${apiKey}`).toString('base64')}`,
+          },
+          body: formData,
+        }
+      );
+
+      if (!response.ok) {
+        const error = await response.text();
+        return {
+          success: false,
+          error: `Mailgun error: ${error}`,
+          provider: 'mailgun',
+          statusCode: response.status,
         };
       }
 
@@ -229,6 +398,7 @@ export class EmailForwarder {
           success: false,
           error: `Postmark error: ${error}`,
           provider: 'postmark',
+          statusCode: response.status,
         };
       }
 
@@ -249,89 +419,221 @@ export class EmailForwarder {
   }
 
   /**
-   * Forward email using Amazon SES
+   * Forward email using Amazon SES (v2 SendEmail with a raw MIME message,
+   * so custom headers and attachments are sent exactly as built)
    */
   private static async forwardViaSES(options: ForwardEmailOptions): Promise<ForwardResult> {
-    // This would require AWS SDK integration
-    // For now, return a placeholder
-    throw new Error('SES forwarding not yet implemented. Please use SendGrid, Mailgun, or Postmark.');
+    const accessKeyId = process.env.AWS_SES_ACCESS_KEY;
+    const secretAccessKey = process.env.AWS_SES_SECRET_KEY;
+
+    if (!accessKeyId || !secretAccessKey) {
+      throw new Error('AWS_SES_ACCESS_KEY or AWS_SES_SECRET_KEY not configured');
+    }
+
+    try {
+      const client = new SESV2({
+        region: process.env.AWS_SES_REGION || 'us-east-1',
+        // Point at a local SES-compatible mock for testing
+        endpoint: process.env.AWS_SES_ENDPOINT,
+        accessKeyId,
+        secretAccessKey,
+        signatureVersion: 'v4',
+      });
+
+      const raw = options.rawMime || await this.buildMime(options);
+
+      const result = await client.sendEmail({
+        Destination: { ToAddresses: [options.to] },
+        Content: { Raw: { Data: raw } },
+        ConfigurationSetName: process.env.AWS_SES_CONFIGURATION_SET,
+        FeedbackForwardingEmailAddress: options.envelopeFrom,
+      }).promise();
+
+      return {
+        success: true,
+        messageId: result.MessageId,
+        provider: 'ses',
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: `SES error: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        provider: 'ses',
+        statusCode: (error as { statusCode?: number }).statusCode,
+      };
+    }
   }
 
   /**
-   * Detect which email provider is configured
+   * Forward email through an SMTP relay (Postfix, a local relay, or a hosted SMTP service)
    */
-  private static detectProvider(): EmailProvider {
-    if (process.env.SENDGRID_API_KEY) return 'sendgrid';
-    if (process.env.MAILGUN_API_KEY) return 'mailgun';
-    if (process.env.POSTMARK_SERVER_TOKEN) return 'postmark';
-    if (process.env.AWS_SES_ACCESS_KEY) return 'ses';
+  private static async forwardViaSMTP(options: ForwardEmailOptions): Promise<ForwardResult> {
+    const transport = this.getSmtpTransport();
+
+    try {
+      const info = await transport.sendMail({
+        envelope: { from: options.envelopeFrom || options.from, to: [options.to] },
+        raw: options.rawMime || await this.buildMime(options),
+      });
+
+      if (info.rejected?.length) {
+        return {
+          success: false,
+          error: `SMTP error: recipient rejected (${info.response})`,
+          provider: 'smtp',
+          permanent: true,
+        };
+      }
 
-    throw new Error('No email provider configured. Set SENDGRID_API_KEY, MAILGUN_API_KEY, or POSTMARK_SERVER_TOKEN');
+      return {
+        success: true,
+        messageId: info.messageId,
+        provider: 'smtp',
+        responseCode: parseInt(String(info.response).substring(0, 3), 10) || undefined,
+      };
+    } catch (error) {
+      const smtpError = error as Error & { responseCode?: number; response?: string };
+      return {
+        success: false,
+        error: `SMTP error: ${smtpError.response || smtpError.message || 'Unknown error'}`,
+        provider: 'smtp',
+        responseCode: smtpError.responseCode,
+        permanent: smtpError.responseCode !== undefined && smtpError.responseCode >= 500,
+      };
+    }
   }
 
   /**
-   * Add ZeroLeak Mail banner to email body
+   * Shared SMTP transport, pooled by default so bursts reuse connections
    */
-  static addForwardingBanner(htmlBody: string, aliasEmail: string): string {
-    const banner = `
-      <div style="background: #f3f4f6; border-left: 4px solid #3b82f6; padding: 12px 16px; margin-bottom: 20px; font-family: sans-serif;">
-        <p style="margin: 0; font-size: 14px; color: #374151;">
-          <strong>📧 ZeroLeak Mail:</strong> This email was forwarded from your alias
-          <code style="background: #e5e7eb; padding: 2px 6px; border-radius: 3px;">${aliasEmail}</code>
-        </p>
-      </div>
-    `;
-
-    // Insert banner at the beginning of body
-    if (htmlBody.includes('<body')) {
-      return htmlBody.replace(/<body[^>]*>/i, `$&${banner}`);
+  private static getSmtpTransport(): Transporter {
+    if (this.smtpTransport) return this.smtpTransport;
+
+    const host = process.env.SMTP_RELAY_HOST;
+    if (!host) {
+      throw new Error('SMTP_RELAY_HOST not configured');
     }
 
-    return `<html><body>${banner}${htmlBody}</body></html>`;
+    // Implicit TLS (port 465) when SMTP_RELAY_SECURE=true, otherwise STARTTLS when offered
+    const secure = process.env.SMTP_RELAY_SECURE === 'true';
+    const user = process.env.SMTP_RELAY_USER;
+
+    this.smtpTransport = nodemailer.createTransport({
+      host,
+      port: parseInt(process.env.SMTP_RELAY_PORT || (secure ? '465' : '587'), 10),
+      secure,
+      requireTLS: process.env.SMTP_RELAY_REQUIRE_TLS === 'true',
+      auth: user
+        ? { user, pass: process.env.SMTP_RELAY_PASSWORD }
+        : undefined,
+      authMethod: process.env.SMTP_RELAY_AUTH_METHOD, // PLAIN or LOGIN; negotiated when unset
+      pool: process.env.SMTP_RELAY_POOL !== 'false',
+      maxConnections: parseInt(process.env.SMTP_RELAY_MAX_CONNECTIONS || '5', 10),
+    });
+
+    return this.smtpTransport;
+  }
+
+  /**
+   * Build a complete RFC 5322 message for providers that take raw MIME
+   */
+  static async buildMime(options: ForwardEmailOptions): Promise<Buffer> {
+    const composer = new MailComposer({
+      from: options.from,
+      to: options.to,
+      replyTo: options.replyTo,
+      subject: options.subject,
+      text: options.textBody,
+      html: options.htmlBody,
+      headers: options.headers,
+      attachments: options.attachments?.map(att => ({
+        filename: att.filename,
+        content: att.content,
+        encoding: 'base64',
+        contentType: att.contentType,
+      })),
+    });
+
+    return composer.compile().build();
+  }
+
+  /**
+   * Build the message, then encrypt all of it (headers, bodies, attachments) to the
+   * recipient's key. Only the addressing headers and our own X- headers stay readable.
+   */
+  private static async buildEncryptedMime(options: ForwardEmailOptions): Promise<Buffer> {
+    const mime = await this.buildMime(options);
+
+    return MailEncryption.encrypt(mime, options.encryption!, {
+      from: options.from,
+      to: options.to,
+      subject: options.subject,
+      replyTo: options.replyTo,
+      headers: options.headers,
+    });
   }
 
   /**
-   * Add text banner for plain text emails
+   * Providers to try, in order. EMAIL_PROVIDERS lists them explicitly ("sendgrid,ses");
+   * with weights ("sendgrid:3,mailgun:1") the first choice is drawn at random by weight.
    */
-  static addTextBanner(textBody: string, aliasEmail: string): string {
-    const banner = `
-━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
-📧 ZeroLeak Mail
-This email was forwarded from: ${aliasEmail}
-━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+  private static providerChain(): EmailProvider[] {
+    const configured = process.env.EMAIL_PROVIDERS;
+
+    if (!configured) {
+      const detected = PROVIDER_CREDENTIALS
+        .filter(([, envVar]) => process.env[envVar])
+        .map(([provider]) => provider);
+
+      if (detected.length === 0) {
+        throw new Error('No email provider configured. Set SENDGRID_API_KEY, MAILGUN_API_KEY, POSTMARK_SERVER_TOKEN, AWS_SES_ACCESS_KEY, or SMTP_RELAY_HOST');
+      }
+      return detected;
+    }
+
+    const entries = configured.split(',').map(entry => {
+      const [name, weight] = entry.trim().split(':');
+      const provider = name.toLowerCase() as EmailProvider;
+      if (!PROVIDER_CREDENTIALS.some(([known]) => known === provider)) {
+        throw new Error(`Unsupported email provider in EMAIL_PROVIDERS: ${name}`);
+      }
+      return { provider, weight: weight === undefined ? undefined : Math.max(0, parseFloat(weight) || 0) };
+    });
+
+    if (entries.every(entry => entry.weight === undefined)) {
+      return entries.map(entry => entry.provider);
+    }
+
+    // Weighted order: draw without replacement, so every provider remains a fallback
+    const remaining = entries.map(entry => ({ provider: entry.provider, weight: entry.weight ?? 1 }));
+    const ordered: EmailProvider[] = [];
 
-`;
+    while (remaining.length > 0) {
+      const total = remaining.reduce((sum, entry) => sum + entry.weight, 0);
+      let pick = Math.random() * total;
+      let index = remaining.findIndex(entry => (pick -= entry.weight) < 0);
+      if (index === -1) index = 0; // all remaining weights are zero
 
-    return banner + textBody;
+      ordered.push(remaining[index].provider);
+      remaining.splice(index, 1);
+    }
+
+    return ordered;
   }
 
   /**
-   * Sanitize email content to remove tracking pixels
+   * Whether another provider might succeed where this one failed: transport errors,
+   * server errors and rate limiting are provider problems; other rejections are the message's
    */
-  static sanitizeHtml(html: string): string {
-    // Remove 1x1 tracking pixels
-    let sanitized = html.replace(
-      /<img[^>]*width=["']?1["']?[^>]*height=["']?1["']?[^>]*>/gi,
-      ''
-    );
-    sanitized = sanitized.replace(
-      /<img[^>]*height=["']?1["']?[^>]*width=["']?1["']?[^>]*>/gi,
-      ''
-    );
-
-    // Remove common tracking domains
-    const trackingDomains = [
-      'pixel.facebook.com',
-      'www.google-analytics.com',
-      'stats.g.doubleclick.net',
-      'sb.scorecardresearch.com',
-    ];
-
-    for (const domain of trackingDomains) {
-      const regex = new RegExp(`<img[^>]*${domain}[^>]*>`, 'gi');
-      sanitized = sanitized.replace(regex, '');
+  private static shouldFailOver(result: ForwardResult): boolean {
+    if (result.statusCode !== undefined) {
+      return result.statusCode >= 500 || result.statusCode === 429;
+    }
+
+    if (result.responseCode !== undefined) {
+      return result.responseCode < 500;
     }
 
-    return sanitized;
+    return !result.permanent;
   }
 }
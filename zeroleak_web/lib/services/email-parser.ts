@@ -0,0 +1,382 @@
+/**
+ * Email Parsing Service
+ * Normalizes inbound mail from every provider into a single ParsedEmail structure
+ * Raw RFC 5322 / MIME messages are parsed in full: decoded headers, text/html alternatives,
+ * inline parts and attachments
+ */
+
+import { createHash } from 'crypto';
+import { simpleParser, type AddressObject, type HeaderValue } from 'mailparser';
+import { z } from 'zod';
+
+export interface ParsedAttachment {
+  filename: string;
+  contentType: string;
+  size: number;
+  content: string; // Base64 encoded
+  contentId?: string;
+  inline: boolean;
+}
+
+export interface ParsedEmail {
+  messageId: string;
+  from: string;
+  to: string; // To header (may list several addresses with display names)
+  cc?: string;
+  envelopeTo?: string[]; // SMTP RCPT TO recipients; authoritative when present (covers Bcc)
+  subject?: string;
+  textBody?: string;
+  htmlBody?: string;
+  headers?: Record<string, string | string[]>;
+  attachments?: ParsedAttachment[];
+  rawMime?: string; // Base64 of the original message, kept for DKIM verification
+  clientIp?: string; // SMTP session details, only when we received the message ourselves
+  helo?: string;
+  mailFrom?: string;
+}
+
+const headerValue = z.union([z.string(), z.array(z.string())]);
+
+// Only the fields we read; anything else in the payload is ignored
+const sendGridJsonSchema = z.array(z.object({
+  email_id: z.string().optional(),
+  from: z.string().default(''),
+  to: z.string().default(''),
+  cc: z.string().nullish(),
+  subject: z.string().nullish(),
+  text: z.string().nullish(),
+  html: z.string().nullish(),
+  headers: z.record(z.string(), headerValue).optional(),
+  attachments: z.array(z.object({
+    filename: z.string().optional(),
+    name: z.string().optional(),
+    type: z.string().optional(),
+    content_type: z.string().optional(),
+    size: z.number().optional(),
+    content: z.string().optional(),
+    content_id: z.string().optional(),
+    disposition: z.string().optional(),
+  })).nullish(),
+})).min(1);
+
+const postmarkSchema = z.object({
+  MessageID: z.string().optional(),
+  From: z.string().optional(),
+  FromFull: z.object({ Email: z.string().optional() }).optional(),
+  To: z.string().default(''),
+  Cc: z.string().nullish(),
+  OriginalRecipient: z.string().nullish(),
+  Subject: z.string().nullish(),
+  TextBody: z.string().nullish(),
+  HtmlBody: z.string().nullish(),
+  Headers: z.array(z.object({ Name: z.string(), Value: z.string() })).nullish(),
+  Attachments: z.array(z.object({
+    Name: z.string(),
+    ContentType: z.string(),
+    ContentLength: z.number(),
+    Content: z.string(),
+    ContentID: z.string().nullish(),
+  })).nullish(),
+});
+
+/**
+ * A provider payload that can't be parsed. Resending it won't help, so the webhook
+ * answers 400 rather than 500 to stop the provider retrying.
+ */
+export class EmailParseError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'EmailParseError';
+  }
+}
+
+export class EmailParser {
+  /**
+   * Parse a raw RFC 5322 message (full MIME tree)
+   * @param envelopeRecipients SMTP envelope recipients, when the provider supplies them
+   */
+  static async parseRaw(raw: Buffer | string, envelopeRecipients?: string[]): Promise<ParsedEmail> {
+    const mail = await simpleParser(raw, {
+      skipImageLinks: true,
+      skipTextToHtml: true,
+      skipTextLinks: true,
+      keepCidLinks: true,
+    });
+
+    const headers: Record<string, string | string[]> = {};
+    for (const [key, value] of mail.headers) {
+      headers[key] = this.formatHeaderValue(value);
+    }
+
+    return {
+      messageId: mail.messageId || this.derivedMessageId(raw),
+      from: mail.from?.value[0]?.address || '',
+      to: this.addressText(mail.to) || '',
+      cc: this.addressText(mail.cc),
+      envelopeTo: envelopeRecipients?.length ? envelopeRecipients : undefined,
+      subject: mail.subject,
+      textBody: mail.text || undefined,
+      htmlBody: mail.html || undefined,
+      headers,
+      rawMime: Buffer.from(raw).toString('base64'),
+      attachments: mail.attachments.map(att => ({
+        filename: att.filename || 'attachment',
+        contentType: att.contentType,
+        size: att.size,
+        content: att.content.toString('base64'),
+        contentId: att.contentId,
+        inline: att.related || att.contentDisposition === 'inline',
+      })),
+    };
+  }
+
+  /**
+   * Parse a Mailgun route webhook (parsed fields or `body-mime`)
+   */
+  static async parseMailgun(formData: FormData): Promise<ParsedEmail> {
+    const recipient = formData.get('recipient') as string | null;
+    const envelopeTo = recipient
+      ? recipient.split(',').map(r => r.trim()).filter(Boolean)
+      : undefined;
+
+    // Routes that forward to a URL ending in "mime" post the full message
+    const bodyMime = formData.get('body-mime');
+    if (typeof bodyMime === 'string') {
+      return this.parseRaw(bodyMime, envelopeTo);
+    }
+
+    const attachments: ParsedAttachment[] = [];
+    const attachmentCount = parseInt(formData.get('attachment-count') as string || '0', 10);
+    for (let i = 1; i <= attachmentCount; i++) {
+      const file = formData.get(`attachment-${i}`);
+      if (file instanceof File) {
+        attachments.push(await this.fileToAttachment(file));
+      }
+    }
+
+    return {
+      messageId: formData.get('Message-Id') as string || this.derivedMessageId(
+        formData.get('message-headers') as string | null,
+        formData.get('body-plain') as string | null,
+        formData.get('body-html') as string | null
+      ),
+      from: formData.get('sender') as string || formData.get('from') as string,
+      to: formData.get('To') as string || formData.get('to') as string || '',
+      cc: formData.get('Cc') as string || undefined,
+      envelopeTo,
+      subject: formData.get('subject') as string,
+      textBody: formData.get('body-plain') as string,
+      htmlBody: formData.get('body-html') as string,
+      headers: this.mailgunHeaders(formData.get('message-headers') as string | null),
+      attachments,
+    };
+  }
+
+  /**
+   * Parse a SendGrid Inbound Parse webhook (form post, optionally in raw mode)
+   */
+  static async parseSendGridForm(formData: FormData): Promise<ParsedEmail> {
+    const envelope = this.parseJson(formData.get('envelope') as string || '{}', 'envelope');
+    const envelopeTo: string[] | undefined = envelope.to;
+
+    // "POST the raw, full MIME message" puts the whole message in `email`
+    const rawEmail = formData.get('email');
+    if (typeof rawEmail === 'string') {
+      return this.parseRaw(rawEmail, envelopeTo);
+    }
+
+    // Non-raw mode still carries the complete header block, so reuse the MIME parser for it
+    const headerBlock = await this.parseRaw(`${formData.get('headers') || ''}\r\n\r\n`);
+
+    const attachments: ParsedAttachment[] = [];
+    const attachmentCount = parseInt(formData.get('attachments') as string || '0', 10);
+    const attachmentInfo = this.parseJson(formData.get('attachment-info') as string || '{}', 'attachment-info');
+    for (let i = 1; i <= attachmentCount; i++) {
+      const file = formData.get(`attachment${i}`);
+      if (file instanceof File) {
+        const attachment = await this.fileToAttachment(file);
+        const info = attachmentInfo[`attachment${i}`];
+        if (info?.['content-id']) {
+          attachment.contentId = info['content-id'];
+          attachment.inline = true;
+        }
+        attachments.push(attachment);
+      }
+    }
+
+    return {
+      messageId: headerBlock.messageId,
+      from: envelope.from || headerBlock.from,
+      to: formData.get('to') as string || headerBlock.to,
+      cc: formData.get('cc') as string || headerBlock.cc,
+      envelopeTo: envelopeTo?.length ? envelopeTo : undefined,
+      subject: formData.get('subject') as string || headerBlock.subject,
+      textBody: formData.get('text') as string || undefined,
+      htmlBody: formData.get('html') as string || undefined,
+      headers: headerBlock.headers,
+      attachments,
+    };
+  }
+
+  /**
+   * Parse a SendGrid JSON payload
+   */
+  static parseSendGridJson(body: unknown): ParsedEmail {
+    const email = this.validate(sendGridJsonSchema, body, 'SendGrid')[0];
+    const headerMessageId = email.headers?.['message-id'];
+
+    return {
+      messageId: (Array.isArray(headerMessageId) ? headerMessageId[0] : headerMessageId)
+        || email.email_id
+        || this.derivedMessageId(JSON.stringify(body)),
+      from: email.from,
+      to: email.to,
+      cc: email.cc ?? undefined,
+      subject: email.subject ?? undefined,
+      textBody: email.text ?? undefined,
+      htmlBody: email.html ?? undefined,
+      headers: email.headers,
+      attachments: (email.attachments || []).map(att => ({
+        filename: att.filename || att.name || 'attachment',
+        contentType: att.type || att.content_type || 'application/octet-stream',
+        size: att.size || Buffer.byteLength(att.content || '', 'base64'),
+        content: att.content || '',
+        contentId: att.content_id,
+        inline: att.disposition === 'inline',
+      })),
+    };
+  }
+
+  /**
+   * Parse a Postmark inbound JSON payload
+   */
+  static parsePostmark(body: unknown): ParsedEmail {
+    const email = this.validate(postmarkSchema, body, 'Postmark');
+
+    return {
+      messageId: email.MessageID || this.derivedMessageId(JSON.stringify(body)),
+      from: email.FromFull?.Email || email.From || '',
+      to: email.To,
+      cc: email.Cc || undefined,
+      envelopeTo: email.OriginalRecipient ? [email.OriginalRecipient] : undefined,
+      subject: email.Subject ?? undefined,
+      textBody: email.TextBody ?? undefined,
+      htmlBody: email.HtmlBody ?? undefined,
+      headers: email.Headers?.reduce((acc: Record<string, string>, h) => {
+        acc[h.Name.toLowerCase()] = h.Value;
+        return acc;
+      }, {}),
+      attachments: (email.Attachments || []).map(att => ({
+        filename: att.Name,
+        contentType: att.ContentType,
+        size: att.ContentLength,
+        content: att.Content,
+        contentId: att.ContentID || undefined,
+        inline: Boolean(att.ContentID),
+      })),
+    };
+  }
+
+  /**
+   * Attachment metadata suitable for storing alongside the message (no content)
+   */
+  static attachmentMetadata(attachments: ParsedAttachment[] = []) {
+    return attachments.map(att => ({
+      filename: att.filename,
+      contentType: att.contentType,
+      size: att.size,
+      contentId: att.contentId,
+      inline: att.inline,
+    }));
+  }
+
+  /**
+   * Stand-in Message-ID for mail without one, derived from the content so a provider's
+   * retry of the same message gets the same ID (and is deduplicated)
+   */
+  private static derivedMessageId(...parts: (Buffer | string | null | undefined)[]): string {
+    const hash = createHash('sha256');
+    for (const part of parts) {
+      hash.update(part ?? '');
+      hash.update('\0');
+    }
+    return `<${hash.digest('hex')}@${process.env.RELAY_DOMAIN || 'mail.zeroleak.app'}>`;
+  }
+
+  private static async fileToAttachment(file: File): Promise<ParsedAttachment> {
+    const content = Buffer.from(await file.arrayBuffer());
+    return {
+      filename: file.name || 'attachment',
+      contentType: file.type || 'application/octet-stream',
+      size: content.length,
+      content: content.toString('base64'),
+      inline: false,
+    };
+  }
+
+  /**
+   * Mailgun sends headers as a JSON array of [name, value] pairs
+   */
+  private static mailgunHeaders(json: string | null): Record<string, string | string[]> {
+    const headers: Record<string, string | string[]> = {};
+    if (!json) return headers;
+
+    const pairs = this.parseJson(json, 'message-headers');
+    if (!Array.isArray(pairs) ||
+        !pairs.every(pair => Array.isArray(pair) && typeof pair[0] === 'string' && typeof pair[1] === 'string')) {
+      throw new EmailParseError('Invalid message-headers: expected an array of [name, value] pairs');
+    }
+
+    for (const [name, value] of pairs as [string, string][]) {
+      const key = name.toLowerCase();
+      const existing = headers[key];
+      if (existing === undefined) {
+        headers[key] = value;
+      } else {
+        headers[key] = Array.isArray(existing) ? [...existing, value] : [existing, value];
+      }
+    }
+    return headers;
+  }
+
+  private static parseJson(json: string, field: string) {
+    try {
+      return JSON.parse(json);
+    } catch {
+      throw new EmailParseError(`Invalid JSON in ${field}`);
+    }
+  }
+
+  private static validate<T extends z.ZodType>(schema: T, body: unknown, provider: string): z.output<T> {
+    const result = schema.safeParse(body);
+    if (!result.success) {
+      const issue = result.error.issues[0];
+      throw new EmailParseError(`Invalid ${provider} payload: ${issue.path.join('.') || 'body'} ${issue.message}`);
+    }
+    return result.data;
+  }
+
+  private static addressText(address: AddressObject | AddressObject[] | undefined): string | undefined {
+    const list = Array.isArray(address) ? address : address ? [address] : [];
+    return list.length ? list.map(a => a.text).join(', ') : undefined;
+  }
+
+  /**
+   * Flatten mailparser's structured header values into decoded strings
+   */
+  private static formatHeaderValue(value: HeaderValue): string | string[] {
+    if (typeof value === 'string') return value;
+    if (value instanceof Date) return value.toISOString();
+    if (Array.isArray(value)) {
+      return (value as (string | { value: string; params: Record<string, string> })[]).map(v =>
+        typeof v === 'string' ? v : this.formatHeaderValue(v) as string
+      );
+    }
+    if ('text' in value) return value.text;
+
+    const params = Object.entries(value.params || {})
+      .map(([key, param]) => `; ${key}=${param}`)
+      .join('');
+    return `${value.value}${params}`;
+  }
+}
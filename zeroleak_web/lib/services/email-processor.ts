@@ -0,0 +1,764 @@
+/**
+ * Email Processing Service
+ * Runs an inbound message through alias resolution, spam detection,
+ * leak detection, storage and forwarding
+ * Shared by the provider webhook and the built-in SMTP receiver
+ *
+ * A message addressed to several aliases is stored once per alias. Recipients come from the
+ * SMTP envelope when the provider supplies it (so Bcc works), otherwise from To/Cc.
+ *
+ * Processing is idempotent per delivery: providers retry webhooks, so a repeat of the
+ * same Message-ID/recipients returns the original result without re-running any stage.
+ */
+
+import { createHash } from 'crypto';
+import { Prisma, type Alias, type EmailMessage, type User } from '@prisma/client';
+import prisma from '@/lib/prisma';
+import { SpamDetector } from '@/lib/services/spam-detector';
+import { ForwardRetry } from '@/lib/services/forward-retry';
+import { ForwardingDestinations } from '@/lib/services/forwarding-destinations';
+import { EmailParser, type ParsedEmail } from '@/lib/services/email-parser';
+import { AddressParser } from '@/lib/services/address-parser';
+import { CatchAll } from '@/lib/services/catch-all';
+import { AttachmentStore, type SavedAttachment } from '@/lib/services/attachment-store';
+import { getStorageLimit, getStorageUsage } from '@/lib/subscriptions';
+import { SenderAuth, type SenderAuthResult } from '@/lib/services/sender-auth';
+import { ReverseAlias, type ResolvedReverseAlias } from '@/lib/services/reverse-alias';
+import { BounceHandler } from '@/lib/services/bounce-handler';
+import { Srs } from '@/lib/services/srs';
+import { HtmlSanitizer } from '@/lib/services/html-sanitizer';
+import { LinkUnwrapper } from '@/lib/services/link-unwrapper';
+import { SecurityScanner, type SecurityScanResult } from '@/lib/services/security-scanner';
+
+// Type aliases (not interfaces) so results can be stored as Prisma JSON
+export type RecipientResult = {
+  recipient: string;
+  status: string;
+  reason?: string;
+  emailId?: string;
+  spamScore?: number;
+  forwarded?: boolean;
+  decoyDetected?: boolean;
+};
+
+export type ProcessResult = {
+  status: string;
+  reason?: string;
+  recipients?: RecipientResult[];
+  duplicate?: boolean;
+};
+
+interface StoredMessage {
+  recipient: string;
+  alias: Alias & { user: User };
+  emailMessage: EmailMessage;
+  shouldForward: boolean;
+  spamScore: number;
+  decoyDetected: boolean;
+}
+
+// A reply from the alias owner to a correspondent, sent once the transaction commits
+interface PendingReply {
+  recipient: string;
+  reverseAlias: ResolvedReverseAlias;
+}
+
+type SpamAnalysis = ReturnType<typeof SpamDetector.analyze>;
+
+export type StageTimings = Record<string, number>; // Milliseconds per pipeline stage
+
+type DbClient = Prisma.TransactionClient | typeof prisma;
+
+// A claim still PROCESSING after this long is assumed to belong to a crashed worker
+const STALE_CLAIM_MS = 10 * 60 * 1000;
+
+export class EmailProcessor {
+  /**
+   * Look up an alias (with its owner) by full address; plus tags are ignored
+   */
+  static async findAlias(address: string, db: DbClient = prisma) {
+    const { base } = AddressParser.splitTag(address);
+    const [localPart, domain] = base.split('@');
+    if (!localPart || !domain) return null;
+
+    return db.alias.findUnique({
+      where: {
+        localPart_domain: {
+          localPart,
+          domain,
+        },
+      },
+      include: {
+        user: true,
+      },
+    });
+  }
+
+  /**
+   * Check whether we receive mail for a domain: the relay domain or a verified custom domain
+   */
+  static async isAcceptedDomain(domain: string): Promise<boolean> {
+    const normalized = domain.toLowerCase();
+    const relayDomain = process.env.RELAY_DOMAIN || 'mail.zeroleak.app';
+    if (normalized === relayDomain) return true;
+
+    const customDomain = await prisma.domain.findUnique({
+      where: { domain: normalized },
+      select: { verified: true },
+    });
+    return customDomain?.verified === true;
+  }
+
+  /**
+   * Main email processing logic
+   * @param timings Filled in with the time spent in each stage
+   */
+  static async process(email: ParsedEmail, timings: StageTimings = {}): Promise<ProcessResult> {
+    const recipients = this.resolveRecipients(email);
+    if (recipients.length === 0) {
+      return { status: 'rejected', reason: 'No recipients' };
+    }
+
+    const idempotencyKey = this.idempotencyKey(email.messageId, recipients);
+
+    const previous = await this.timed(timings, 'dedupe', () => this.claim(idempotencyKey, email.messageId));
+    if (previous) {
+      return { ...previous, duplicate: true };
+    }
+
+    // Authentication and spam scoring depend only on the message, so they run once for all recipients
+    const authentication = await this.timed(timings, 'auth', () => SenderAuth.verify(email));
+
+    const spamAnalysis = await this.timed(timings, 'spam', () => SpamDetector.analyze({
+      fromAddress: email.from,
+      subject: email.subject,
+      textBody: email.textBody,
+      htmlBody: email.htmlBody,
+      headers: email.headers,
+      authentication,
+    }));
+
+    const security = await this.timed(timings, 'security', () => SecurityScanner.scan({
+      fromAddress: email.from,
+      subject: email.subject,
+      textBody: email.textBody,
+      htmlBody: email.htmlBody,
+      headers: email.headers,
+      authentication,
+    }));
+
+    // Blob writes can't join the transaction; they are content-addressed, so a retry just reuses them
+    const attachments = await this.timed(timings, 'attachments', () => AttachmentStore.save(email.attachments));
+
+    let outcomes: (StoredMessage | PendingReply | RecipientResult)[];
+    try {
+      // All pipeline writes commit together, so a failure leaves nothing half-written
+      outcomes = await this.timed(timings, 'store', () => prisma.$transaction(async tx => {
+        const results: (StoredMessage | PendingReply | RecipientResult)[] = [];
+        for (const recipient of recipients) {
+          // reply+<token>@relay and SRS bounce addresses are checked before plus tags: they are not aliases
+          const replyToken = ReverseAlias.parse(recipient);
+          if (replyToken) {
+            results.push(await this.authorizeReply(tx, email, recipient, replyToken, authentication));
+          } else if (Srs.isSrsAddress(recipient)) {
+            results.push(await this.recordBounce(tx, email, recipient));
+          } else {
+            results.push(await this.store(tx, email, recipient, spamAnalysis, security, authentication, attachments));
+          }
+        }
+        return results;
+      }));
+    } catch (error) {
+      // Nothing was committed: release the claim so the provider's retry can run
+      await prisma.inboundMessage.delete({ where: { idempotencyKey } }).catch(() => undefined);
+      throw error;
+    }
+
+    // A failed forward is left to ForwardRetry, so the claim below is always completed
+    const recipientResults: RecipientResult[] = [];
+    for (const outcome of outcomes) {
+      if ('emailMessage' in outcome) {
+        recipientResults.push(await this.timed(timings, 'forward', () =>
+          this.forward(outcome).catch(error => this.forwardFailed(outcome, error))
+        ));
+      } else if ('reverseAlias' in outcome) {
+        recipientResults.push(await this.timed(timings, 'forward', () => this.sendReply(outcome, email)));
+      } else {
+        recipientResults.push(outcome);
+      }
+    }
+
+    const accepted = recipientResults.filter(r => r.status !== 'ignored');
+    const result: ProcessResult = accepted.length > 0
+      ? { status: 'processed', recipients: recipientResults }
+      : { status: 'rejected', reason: 'Alias not found', recipients: recipientResults };
+
+    await prisma.inboundMessage.update({
+      where: { idempotencyKey },
+      data: {
+        status: 'COMPLETED',
+        result,
+        completedAt: new Date(),
+      },
+    });
+
+    return result;
+  }
+
+  /**
+   * Run one pipeline stage, adding its duration to `timings`
+   */
+  private static async timed<T>(timings: StageTimings, stage: string, fn: () => T | Promise<T>): Promise<T> {
+    const start = performance.now();
+    try {
+      return await fn();
+    } finally {
+      timings[stage] = Math.round((timings[stage] || 0) + performance.now() - start);
+    }
+  }
+
+  /**
+   * Claim a delivery for processing. Returns the earlier result if it was already handled.
+   */
+  private static async claim(idempotencyKey: string, messageId: string): Promise<ProcessResult | null> {
+    try {
+      await prisma.inboundMessage.create({
+        data: { idempotencyKey, messageId },
+      });
+      return null;
+    } catch (error) {
+      if (!(error instanceof Prisma.PrismaClientKnownRequestError) || error.code !== 'P2002') {
+        throw error;
+      }
+    }
+
+    const existing = await prisma.inboundMessage.findUnique({
+      where: { idempotencyKey },
+    });
+
+    if (existing?.status === 'COMPLETED') {
+      return existing.result as unknown as ProcessResult;
+    }
+
+    // Take over a claim abandoned by a crashed worker
+    const reclaimed = await prisma.inboundMessage.updateMany({
+      where: {
+        idempotencyKey,
+        status: 'PROCESSING',
+        claimedAt: { lt: new Date(Date.now() - STALE_CLAIM_MS) },
+      },
+      data: { claimedAt: new Date() },
+    });
+
+    if (reclaimed.count === 1) {
+      return null;
+    }
+
+    return { status: 'processing' };
+  }
+
+  /**
+   * Work out who the message is for. The envelope wins when present: it is what the
+   * sending MTA actually delivered to, and is the only place Bcc recipients appear.
+   */
+  static resolveRecipients(email: ParsedEmail): string[] {
+    if (email.envelopeTo?.length) {
+      return AddressParser.unique(
+        email.envelopeTo
+          .map(recipient => AddressParser.extractAddress(recipient))
+          .filter((address): address is string => Boolean(address))
+      );
+    }
+
+    return AddressParser.unique(
+      AddressParser.parseList([email.to, email.cc || '']).map(a => a.address)
+    );
+  }
+
+  /**
+   * Resolve the alias for one recipient and store the message (runs inside a transaction)
+   */
+  private static async store(
+    tx: Prisma.TransactionClient,
+    email: ParsedEmail,
+    recipientEmail: string,
+    spamAnalysis: SpamAnalysis,
+    security: SecurityScanResult,
+    authentication: SenderAuthResult,
+    attachments: SavedAttachment[]
+  ): Promise<StoredMessage | RecipientResult> {
+    // Find the alias (alias+tag@domain delivers to alias@domain)
+    let alias = await this.findAlias(recipientEmail, tx);
+    const { tag } = AddressParser.splitTag(recipientEmail);
+
+    // Custom domains with catch-all create the alias on first receipt
+    if (!alias) {
+      const creation = await CatchAll.createAlias(recipientEmail, email.from, tx);
+      if (creation.created) {
+        alias = creation.alias;
+      } else if (creation.limitReached) {
+        return { recipient: recipientEmail, status: 'blocked', reason: creation.reason };
+      }
+    }
+
+    if (!alias) {
+      // Other recipients (CCs to real people, other services) are simply not ours
+      console.warn(`Alias not found: ${recipientEmail}`);
+      return { recipient: recipientEmail, status: 'ignored', reason: 'Alias not found' };
+    }
+
+    // Already stored by an earlier run that didn't finish: reuse the row rather than storing
+    // (and counting) the message twice. It is only forwarded here if that run never got to
+    // it; once an attempt is recorded, the outcome stands and retries belong to ForwardRetry.
+    const existing = await tx.emailMessage.findUnique({
+      where: { messageId_aliasId: { messageId: email.messageId, aliasId: alias.id } },
+    });
+
+    if (existing) {
+      const spamScore = existing.spamScore ?? spamAnalysis.score;
+
+      if (existing.status === 'PENDING' && existing.attemptCount === 0) {
+        return {
+          recipient: recipientEmail,
+          alias,
+          emailMessage: existing,
+          shouldForward: true,
+          spamScore,
+          decoyDetected: false,
+        };
+      }
+
+      return {
+        recipient: recipientEmail,
+        status: existing.status.toLowerCase(),
+        emailId: existing.id,
+        spamScore,
+        forwarded: existing.status === 'DELIVERED',
+        decoyDetected: false,
+      };
+    }
+
+    // A blocked tag kills just that sub-address, not the whole alias
+    if (tag) {
+      const tagRule = await tx.aliasTagRule.findUnique({
+        where: { aliasId_tag: { aliasId: alias.id, tag } },
+      });
+
+      if (tagRule?.blocked) {
+        console.warn(`Tag "${tag}" is blocked: ${recipientEmail}`);
+
+        await tx.relayEvent.create({
+          data: {
+            aliasId: alias.id,
+            type: 'BLOCKED',
+            fromAddress: email.from,
+            toAddress: recipientEmail,
+            subject: email.subject,
+            bodySnippet: email.textBody?.substring(0, 200),
+            metadata: { reason: 'Tag blocked', tag },
+          },
+        });
+
+        return { recipient: recipientEmail, status: 'blocked', reason: `Tag "${tag}" is blocked` };
+      }
+    }
+
+    // Check if alias is active
+    if (alias.status !== 'ACTIVE') {
+      console.warn(`Alias is ${alias.status}: ${recipientEmail}`);
+
+      // Log the event
+      await tx.relayEvent.create({
+        data: {
+          aliasId: alias.id,
+          type: 'BLOCKED',
+          fromAddress: email.from,
+          toAddress: recipientEmail,
+          subject: email.subject,
+          bodySnippet: email.textBody?.substring(0, 200),
+          metadata: { reason: `Alias status: ${alias.status}` },
+        },
+      });
+
+      return { recipient: recipientEmail, status: 'blocked', reason: `Alias is ${alias.status}` };
+    }
+
+    // Check if decoy token appears in email (indicates leak)
+    let decoyDetected = false;
+    if (alias.decoySeeded && alias.decoyToken) {
+      const emailContent = `${email.textBody || ''} ${email.htmlBody || ''}`;
+      decoyDetected = emailContent.includes(alias.decoyToken);
+
+      if (decoyDetected) {
+        console.warn(`Decoy token detected in email to ${recipientEmail}`);
+
+        // Update alias status
+        await tx.alias.update({
+          where: { id: alias.id },
+          data: {
+            status: 'LEAKED',
+            leakedAt: new Date(),
+            breachDetected: true,
+          },
+        });
+
+        // Log leak detection event
+        await tx.relayEvent.create({
+          data: {
+            aliasId: alias.id,
+            type: 'LEAK_DETECTED',
+            fromAddress: email.from,
+            toAddress: recipientEmail,
+            subject: email.subject,
+            metadata: { decoyToken: alias.decoyToken, spamScore: spamAnalysis.score },
+          },
+        });
+
+        // Create audit log
+        await tx.auditLog.create({
+          data: {
+            userId: alias.userId,
+            action: 'LEAK_DETECTED',
+            resource: `alias:${alias.id}`,
+            metadata: {
+              aliasEmail: `${alias.localPart}@${alias.domain}`,
+              merchant: alias.merchant,
+              fromAddress: email.from,
+            },
+          },
+        });
+      }
+    }
+
+    // Determine email status based on spam score
+    let emailStatus: 'PENDING' | 'SPAM' | 'QUARANTINED' = 'PENDING';
+    let shouldForward = true;
+
+    if (SpamDetector.shouldBlock(spamAnalysis.score)) {
+      emailStatus = 'SPAM';
+      shouldForward = false;
+
+      // Increment spam counter
+      const updated = await tx.alias.update({
+        where: { id: alias.id },
+        data: { spamCount: { increment: 1 } },
+      });
+
+      // Auto-kill if spam count exceeds threshold
+      if (updated.spamCount >= 10) {
+        await tx.alias.update({
+          where: { id: alias.id },
+          data: {
+            status: 'KILLED',
+            killedAt: new Date(),
+          },
+        });
+
+        await tx.auditLog.create({
+          data: {
+            userId: alias.userId,
+            action: 'ALIAS_AUTO_KILLED',
+            resource: `alias:${alias.id}`,
+            metadata: {
+              reason: 'Excessive spam',
+              spamCount: updated.spamCount,
+            },
+          },
+        });
+      }
+    } else if (SpamDetector.shouldQuarantine(spamAnalysis.score)) {
+      emailStatus = 'QUARANTINED';
+      shouldForward = false;
+    } else if (spamAnalysis.isSpam) {
+      emailStatus = 'SPAM';
+      shouldForward = false;
+    }
+
+    // Attachments count toward the owner's storage allowance
+    const attachmentBytes = attachments.reduce((total, att) => total + att.size, 0);
+    const storageLimit = getStorageLimit(alias.user.role);
+    const attachmentsFit = storageLimit === -1 ||
+      (await getStorageUsage(alias.userId, tx)) + attachmentBytes <= storageLimit;
+
+    if (!attachmentsFit) {
+      console.warn(`Storage limit reached for user ${alias.userId}, not storing attachments`);
+    }
+
+    // The original HTML is stored; forwards and the dashboard get the sanitized copy
+    const sanitized = email.htmlBody ? HtmlSanitizer.sanitize(email.htmlBody, { unwrapLinks: true }) : null;
+    const trackersRemoved = sanitized?.trackersRemoved || 0;
+    const linkRewrites = LinkUnwrapper.merge(
+      sanitized?.linkRewrites || [],
+      email.textBody ? LinkUnwrapper.rewriteText(email.textBody).rewrites : []
+    );
+
+    // Store the email message
+    const emailMessage = await tx.emailMessage.create({
+      data: {
+        aliasId: alias.id,
+        messageId: email.messageId,
+        fromAddress: email.from,
+        toAddress: recipientEmail,
+        tag,
+        subject: email.subject,
+        textBody: email.textBody,
+        htmlBody: email.htmlBody,
+        headers: email.headers,
+        attachments: EmailParser.attachmentMetadata(email.attachments),
+        spamScore: spamAnalysis.score,
+        isSpam: spamAnalysis.isSpam,
+        securityScore: security.score,
+        securityThreats: security.threats.length > 0 ? security.threats : undefined,
+        trackersRemoved,
+        linkRewrites: linkRewrites.length > 0 ? linkRewrites : undefined,
+        spfResult: authentication.spf,
+        dkimResult: authentication.dkim,
+        dmarcResult: authentication.dmarc,
+        dkimDomain: authentication.dkimDomain,
+        authSource: authentication.source,
+        senderVerified: authentication.verified,
+        status: emailStatus,
+        // Digest-mode aliases keep the message for the next scheduled summary instead of forwarding it
+        heldForDigest: shouldForward && alias.deliveryMode !== 'IMMEDIATE',
+        storedAttachments: attachmentsFit && attachments.length > 0
+          ? {
+              create: attachments.map(att => ({
+                userId: alias.userId,
+                filename: att.filename,
+                contentType: att.contentType,
+                size: att.size,
+                sha256: att.sha256,
+                contentId: att.contentId,
+                inline: att.inline,
+              })),
+            }
+          : undefined,
+      },
+    });
+
+    // Log received event
+    await tx.relayEvent.create({
+      data: {
+        aliasId: alias.id,
+        type: spamAnalysis.isSpam ? 'SPAM_DETECTED' : 'RECEIVED',
+        fromAddress: email.from,
+        toAddress: recipientEmail,
+        subject: email.subject,
+        bodySnippet: email.textBody?.substring(0, 200),
+        metadata: {
+          spamScore: spamAnalysis.score,
+          spamReasons: spamAnalysis.reasons,
+          securityScore: security.score,
+          decoyDetected,
+          tag,
+          senderVerified: authentication.verified,
+          dmarc: authentication.dmarc,
+          trackersRemoved,
+          linksUnwrapped: linkRewrites.length,
+          attachmentsDropped: attachmentsFit ? undefined : 'Storage limit exceeded',
+        },
+      },
+    });
+
+    return {
+      recipient: recipientEmail,
+      alias,
+      emailMessage,
+      shouldForward,
+      spamScore: spamAnalysis.score,
+      decoyDetected,
+    };
+  }
+
+  /**
+   * Forward a stored message if it passed filtering (outside the transaction:
+   * the provider call is external and can't be rolled back). A failure is
+   * rescheduled by the retry scheduler.
+   */
+  private static async forward(stored: StoredMessage): Promise<RecipientResult> {
+    const { alias, emailMessage, shouldForward } = stored;
+    let emailStatus: string = emailMessage.status;
+    let forwarded = false;
+
+    if (emailMessage.heldForDigest) {
+      return {
+        recipient: stored.recipient,
+        status: emailStatus.toLowerCase(),
+        reason: 'Held for digest',
+        emailId: emailMessage.id,
+        spamScore: stored.spamScore,
+        forwarded: false,
+        decoyDetected: stored.decoyDetected,
+      };
+    }
+
+    // Forward email if not spam/quarantined; without a verified destination it stays in the inbox
+    const destinations = shouldForward ? await ForwardingDestinations.resolve(alias) : [];
+
+    if (destinations.length > 0) {
+      const outcome = await ForwardRetry.attempt(emailMessage, alias, 'initial', destinations);
+      forwarded = outcome.result.success;
+      emailStatus = forwarded ? 'DELIVERED' : 'FAILED';
+    }
+
+    return {
+      recipient: stored.recipient,
+      status: emailStatus.toLowerCase(),
+      emailId: emailMessage.id,
+      spamScore: stored.spamScore,
+      forwarded: shouldForward && forwarded,
+      decoyDetected: stored.decoyDetected,
+    };
+  }
+
+  /**
+   * Forwarding threw before ForwardRetry could record the attempt: mark the message
+   * FAILED and due now, so the retry runner picks it up
+   */
+  private static async forwardFailed(stored: StoredMessage, error: unknown): Promise<RecipientResult> {
+    console.error(`Error forwarding message ${stored.emailMessage.id}:`, error);
+    const reason = error instanceof Error ? error.message : 'Unknown error';
+
+    await prisma.emailMessage.updateMany({
+      where: { id: stored.emailMessage.id, status: { in: ['PENDING', 'FAILED'] } },
+      data: { status: 'FAILED', errorMessage: reason, nextRetryAt: new Date() },
+    }).catch(updateError => console.error('Error scheduling forward retry:', updateError));
+
+    return {
+      recipient: stored.recipient,
+      status: 'failed',
+      reason,
+      emailId: stored.emailMessage.id,
+      spamScore: stored.spamScore,
+      forwarded: false,
+      decoyDetected: stored.decoyDetected,
+    };
+  }
+
+  /**
+   * Record a bounce of one of our forwards (runs inside a transaction). Bounces are
+   * handled here and never passed on to the original sender, which would reveal the
+   * user's real address.
+   */
+  private static async recordBounce(
+    tx: Prisma.TransactionClient,
+    email: ParsedEmail,
+    recipientEmail: string
+  ): Promise<RecipientResult> {
+    const envelopeSender = Srs.reverse(recipientEmail);
+    if (!envelopeSender) {
+      console.warn(`Invalid or expired SRS address: ${recipientEmail}`);
+      return { recipient: recipientEmail, status: 'ignored', reason: 'Invalid bounce address' };
+    }
+
+    const report = BounceHandler.parseDsn(email);
+    if (!report) {
+      return { recipient: recipientEmail, status: 'ignored', reason: 'Not a delivery status notification' };
+    }
+
+    const outcome = await BounceHandler.record({ ...report, envelopeSender }, tx);
+
+    return {
+      recipient: recipientEmail,
+      status: 'bounce',
+      reason: report.hard ? 'Hard bounce' : 'Soft bounce',
+      emailId: outcome.emailMessageId,
+    };
+  }
+
+  /**
+   * Check that a message to a reply address came from the alias owner (runs inside a transaction)
+   */
+  private static async authorizeReply(
+    tx: Prisma.TransactionClient,
+    email: ParsedEmail,
+    recipientEmail: string,
+    token: string,
+    authentication: SenderAuthResult
+  ): Promise<PendingReply | RecipientResult> {
+    const reverseAlias = await ReverseAlias.resolve(token, tx);
+
+    if (!reverseAlias) {
+      console.warn(`Reverse alias not found: ${recipientEmail}`);
+      return { recipient: recipientEmail, status: 'ignored', reason: 'Reverse alias not found' };
+    }
+
+    const { alias } = reverseAlias;
+    let reason: string | undefined;
+
+    if (alias.status !== 'ACTIVE') {
+      reason = `Alias is ${alias.status}`;
+    } else if (!ReverseAlias.isAuthorizedSender(await ForwardingDestinations.resolve(alias, tx), email, authentication)) {
+      reason = 'Sender is not the alias owner';
+    }
+
+    if (reason) {
+      console.warn(`Reply through ${recipientEmail} refused: ${reason}`);
+
+      await tx.relayEvent.create({
+        data: {
+          aliasId: alias.id,
+          type: 'BLOCKED',
+          fromAddress: email.from,
+          toAddress: reverseAlias.correspondent,
+          subject: email.subject,
+          metadata: {
+            reason,
+            reverseAliasId: reverseAlias.id,
+            senderVerified: authentication.verified,
+          },
+        },
+      });
+
+      return { recipient: recipientEmail, status: 'blocked', reason };
+    }
+
+    // An earlier run that didn't finish may already have sent this reply
+    const alreadySent = await tx.relayEvent.findFirst({
+      where: {
+        aliasId: alias.id,
+        type: 'REPLIED',
+        AND: [
+          { metadata: { path: ['reverseAliasId'], equals: reverseAlias.id } },
+          { metadata: { path: ['inboundMessageId'], equals: email.messageId } },
+        ],
+      },
+    });
+
+    if (alreadySent) {
+      return { recipient: recipientEmail, status: 'replied', forwarded: true };
+    }
+
+    return { recipient: recipientEmail, reverseAlias };
+  }
+
+  /**
+   * Send an authorized reply to the correspondent from the alias
+   */
+  private static async sendReply(pending: PendingReply, email: ParsedEmail): Promise<RecipientResult> {
+    let result;
+    try {
+      result = await ReverseAlias.send(pending.reverseAlias, email);
+    } catch (error) {
+      console.error('Error sending reply:', error);
+      result = { success: false, error: error instanceof Error ? error.message : 'Unknown error' };
+    }
+
+    return {
+      recipient: pending.recipient,
+      status: result.success ? 'replied' : 'failed',
+      reason: result.success ? undefined : result.error,
+      forwarded: result.success,
+    };
+  }
+
+  /**
+   * One delivery = one Message-ID to one set of recipients. Providers that post
+   * once per recipient (e.g. Mailgun routes) therefore get separate keys.
+   */
+  private static idempotencyKey(messageId: string, recipients: string[]): string {
+    return createHash('sha256')
+      .update(`${messageId}\n${[...recipients].sort().join(',')}`)
+      .digest('hex');
+  }
+}
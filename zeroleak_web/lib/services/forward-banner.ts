@@ -0,0 +1,234 @@
+/**
+ * Forward Banner Service
+ * The note added to forwarded mail, from the user's own template or the default for
+ * their language. HTML templates are filled in with escaped values and sanitized before
+ * they're injected, and the banner can go at the top or bottom of the message, or be off.
+ */
+
+import { createHmac, timingSafeEqual } from 'crypto';
+import { HtmlSanitizer } from '@/lib/services/html-sanitizer';
+
+export type BannerPosition = 'TOP' | 'BOTTOM' | 'OFF';
+
+export interface BannerSettings {
+  bannerPosition: BannerPosition;
+  bannerHtml: string | null; // Null: the default template for the locale
+  bannerText: string | null;
+  locale: string;
+}
+
+export interface BannerContext {
+  aliasId: string;
+  aliasEmail: string;
+  merchant: string | null;
+  spamScore: number | null;
+  trackersRemoved: number;
+}
+
+interface BannerTemplates {
+  html: string;
+  text: string;
+  unknownMerchant: string;
+}
+
+export const BANNER_VARIABLES = ['alias', 'merchant', 'spamScore', 'trackers', 'killUrl'] as const;
+
+export const BANNER_LOCALES = ['en', 'de', 'fr', 'es'] as const;
+
+const DEFAULT_LOCALE = 'en';
+
+// Longest template a user may save, in characters
+export const MAX_TEMPLATE_LENGTH = 5000;
+
+const VARIABLE = /\{\{\s*([a-zA-Z]+)\s*\}\}/g;
+
+const TEXT_RULE = '━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━';
+
+const htmlBanner = (intro: string, stats: string, kill: string) => `
+<div style="background: #f3f4f6; border-left: 4px solid #3b82f6; padding: 12px 16px; margin: 20px 0; font-family: sans-serif;">
+  <p style="margin: 0; font-size: 14px; color: #374151;">
+    <strong>📧 ZeroLeak Mail:</strong> ${intro}
+  </p>
+  <p style="margin: 4px 0 0; font-size: 12px; color: #6b7280;">
+    ${stats} · <a href="{{killUrl}}" style="color: #dc2626;">${kill}</a>
+  </p>
+</div>
+`;
+
+const textBanner = (intro: string, stats: string, kill: string) => `
+${TEXT_RULE}
+📧 ZeroLeak Mail
+${intro}
+${stats}
+${kill}: {{killUrl}}
+${TEXT_RULE}
+`;
+
+const DEFAULT_TEMPLATES: Record<(typeof BANNER_LOCALES)[number], BannerTemplates> = {
+  en: {
+    html: htmlBanner(
+      'This email was forwarded from your alias <code style="background: #e5e7eb; padding: 2px 6px; border-radius: 3px;">{{alias}}</code> ({{merchant}})',
+      'Spam score {{spamScore}} · {{trackers}} tracker(s) removed',
+      'Kill this alias'
+    ),
+    text: textBanner(
+      'This email was forwarded from: {{alias}} ({{merchant}})',
+      'Spam score {{spamScore}} · {{trackers}} tracker(s) removed',
+      'Kill this alias'
+    ),
+    unknownMerchant: 'unknown sender',
+  },
+  de: {
+    html: htmlBanner(
+      'Diese E-Mail wurde von deinem Alias <code style="background: #e5e7eb; padding: 2px 6px; border-radius: 3px;">{{alias}}</code> ({{merchant}}) weitergeleitet',
+      'Spam-Score {{spamScore}} · {{trackers}} Tracker entfernt',
+      'Diesen Alias deaktivieren'
+    ),
+    text: textBanner(
+      'Diese E-Mail wurde weitergeleitet von: {{alias}} ({{merchant}})',
+      'Spam-Score {{spamScore}} · {{trackers}} Tracker entfernt',
+      'Diesen Alias deaktivieren'
+    ),
+    unknownMerchant: 'unbekannter Absender',
+  },
+  fr: {
+    html: htmlBanner(
+      'Cet e-mail a été transféré depuis votre alias <code style="background: #e5e7eb; padding: 2px 6px; border-radius: 3px;">{{alias}}</code> ({{merchant}})',
+      'Score de spam {{spamScore}} · {{trackers}} traceur(s) supprimé(s)',
+      'Désactiver cet alias'
+    ),
+    text: textBanner(
+      'Cet e-mail a été transféré depuis : {{alias}} ({{merchant}})',
+      'Score de spam {{spamScore}} · {{trackers}} traceur(s) supprimé(s)',
+      'Désactiver cet alias'
+    ),
+    unknownMerchant: 'expéditeur inconnu',
+  },
+  es: {
+    html: htmlBanner(
+      'Este correo se reenvió desde tu alias <code style="background: #e5e7eb; padding: 2px 6px; border-radius: 3px;">{{alias}}</code> ({{merchant}})',
+      'Puntuación de spam {{spamScore}} · {{trackers}} rastreador(es) eliminado(s)',
+      'Desactivar este alias'
+    ),
+    text: textBanner(
+      'Este correo se reenvió desde: {{alias}} ({{merchant}})',
+      'Puntuación de spam {{spamScore}} · {{trackers}} rastreador(es) eliminado(s)',
+      'Desactivar este alias'
+    ),
+    unknownMerchant: 'remitente desconocido',
+  },
+};
+
+export class ForwardBanner {
+  /**
+   * Add the banner to an already sanitized HTML body
+   */
+  static addToHtml(htmlBody: string, settings: BannerSettings, context: BannerContext): string {
+    if (settings.bannerPosition === 'OFF') return htmlBody;
+
+    const template = settings.bannerHtml ?? this.defaults(settings.locale).html;
+    const values = this.values(settings.locale, context);
+    const filled = template.replace(VARIABLE, (_match, name: string) =>
+      Object.hasOwn(values, name) ? escapeHtml(values[name]) : ''
+    );
+    // The template is the user's own HTML: it gets the same treatment as message bodies
+    const banner = HtmlSanitizer.sanitize(filled).html;
+
+    if (settings.bannerPosition === 'BOTTOM') {
+      return /<\/body>/i.test(htmlBody)
+        ? htmlBody.replace(/<\/body>/i, match => banner + match)
+        : `<html><body>${htmlBody}${banner}</body></html>`;
+    }
+
+    return /<body[^>]*>/i.test(htmlBody)
+      ? htmlBody.replace(/<body[^>]*>/i, match => match + banner)
+      : `<html><body>${banner}${htmlBody}</body></html>`;
+  }
+
+  /**
+   * Add the banner to a plain text body
+   */
+  static addToText(textBody: string, settings: BannerSettings, context: BannerContext): string {
+    if (settings.bannerPosition === 'OFF') return textBody;
+
+    const template = settings.bannerText ?? this.defaults(settings.locale).text;
+    const values = this.values(settings.locale, context);
+    const banner = template.replace(VARIABLE, (_match, name: string) =>
+      Object.hasOwn(values, name) ? values[name] : ''
+    );
+
+    return settings.bannerPosition === 'BOTTOM'
+      ? `${textBody}\n${banner}`
+      : `${banner}\n${textBody}`;
+  }
+
+  /**
+   * Default HTML and text templates for a locale (English when it isn't supported)
+   */
+  static defaults(locale: string): BannerTemplates {
+    return DEFAULT_TEMPLATES[this.supportedLocale(locale)];
+  }
+
+  /**
+   * Variables a template uses that don't exist
+   */
+  static unknownVariables(template: string): string[] {
+    const used = [...template.matchAll(VARIABLE)].map(match => match[1]);
+    return [...new Set(used.filter(name => !(BANNER_VARIABLES as readonly string[]).includes(name)))];
+  }
+
+  /**
+   * Link that kills the alias from the banner. Signed with KILL_LINK_SECRET; without it
+   * the link opens the aliases page instead.
+   */
+  static killUrl(aliasId: string): string {
+    const secret = process.env.KILL_LINK_SECRET;
+    if (!secret) return `${this.appUrl()}/dashboard/aliases`;
+
+    const params = new URLSearchParams({ alias: aliasId, sig: this.sign(secret, aliasId) });
+    return `${this.appUrl()}/api/alias/kill/link?${params}`;
+  }
+
+  /**
+   * Whether a kill link's signature matches, i.e. we generated it for this alias
+   */
+  static verifyKillLink(aliasId: string, signature: string): boolean {
+    const secret = process.env.KILL_LINK_SECRET;
+    if (!secret || !/^[0-9a-f]{32}$/.test(signature)) return false;
+
+    return timingSafeEqual(Buffer.from(this.sign(secret, aliasId)), Buffer.from(signature));
+  }
+
+  private static values(locale: string, context: BannerContext): Record<string, string> {
+    return {
+      alias: context.aliasEmail,
+      merchant: context.merchant || this.defaults(locale).unknownMerchant,
+      spamScore: context.spamScore === null ? '-' : String(Math.round(context.spamScore * 10) / 10),
+      trackers: String(context.trackersRemoved),
+      killUrl: this.killUrl(context.aliasId),
+    };
+  }
+
+  private static supportedLocale(locale: string): (typeof BANNER_LOCALES)[number] {
+    const language = locale.toLowerCase().split(/[-_]/)[0];
+    return (BANNER_LOCALES as readonly string[]).includes(language)
+      ? language as (typeof BANNER_LOCALES)[number]
+      : DEFAULT_LOCALE;
+  }
+
+  private static sign(secret: string, aliasId: string): string {
+    return createHmac('sha256', secret).update(`kill:${aliasId}`).digest('hex').substring(0, 32);
+  }
+
+  private static appUrl(): string {
+    return (process.env.APP_URL || 'https://zeroleak.app').replace(/\/+$/, '');
+  }
+}
+
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
@@ -0,0 +1,393 @@
+/**
+ * Forward Retry Service
+ * Forwards stored messages to the alias's verified destinations and reschedules failed
+ * forwards with exponential backoff. Every attempt is recorded per destination, and
+ * permanent rejections (e.g. a 4xx from the provider) are not retried.
+ */
+
+import type { Alias, EmailMessage } from '@prisma/client';
+import prisma from '@/lib/prisma';
+import { EmailForwarder, type ForwardResult } from '@/lib/services/email-forwarder';
+import { ReverseAlias } from '@/lib/services/reverse-alias';
+import { AddressParser } from '@/lib/services/address-parser';
+import { BounceHandler } from '@/lib/services/bounce-handler';
+import { Srs } from '@/lib/services/srs';
+import { ForwardingDestinations } from '@/lib/services/forwarding-destinations';
+import { AttachmentStore } from '@/lib/services/attachment-store';
+import { HtmlSanitizer } from '@/lib/services/html-sanitizer';
+import { LinkUnwrapper } from '@/lib/services/link-unwrapper';
+import { ForwardBanner } from '@/lib/services/forward-banner';
+
+export type ForwardTrigger = 'initial' | 'scheduled' | 'manual';
+
+export type ForwardAlias = Pick<Alias, 'id' | 'userId' | 'localPart' | 'domain' | 'merchant' | 'forwardTo' | 'status' | 'remoteImages'>;
+
+export interface DestinationOutcome {
+  destination: string | null; // null when the alias had no verified destination
+  result: ForwardResult;
+  permanent: boolean;
+}
+
+export interface AttemptOutcome {
+  result: ForwardResult; // Combined: successful only if every outstanding destination got the message
+  destinations: DestinationOutcome[];
+  attempt: number;
+  permanent: boolean;
+  nextRetryAt: Date | null;
+}
+
+export interface RetryOptions {
+  limit?: number;
+  deadline?: number; // Epoch ms after which no new message is attempted
+}
+
+export interface RetryStats {
+  delivered: number;
+  rescheduled: number;
+  abandoned: number;
+  skipped: number;
+}
+
+const MAX_ATTEMPTS = parseInt(process.env.FORWARD_MAX_ATTEMPTS || '6', 10);
+const BASE_BACKOFF_MS = 5 * 60 * 1000;
+const MAX_BACKOFF_MS = 6 * 60 * 60 * 1000;
+
+// A claimed message is pushed this far ahead, so a crashed run is picked up again later
+const CLAIM_LEASE_MS = 10 * 60 * 1000;
+
+export class ForwardRetry {
+  /**
+   * Forward a stored message once to each verified destination that doesn't have it
+   * yet, and record the outcome: DELIVERED once every destination has it, otherwise
+   * FAILED with the next attempt scheduled (nextRetryAt is null once we have given up)
+   */
+  static async attempt(
+    message: EmailMessage,
+    alias: ForwardAlias,
+    trigger: ForwardTrigger,
+    destinations?: string[]
+  ): Promise<AttemptOutcome> {
+    const attempt = message.attemptCount + 1;
+    const verified = destinations ?? await ForwardingDestinations.resolve(alias);
+
+    // Destinations that got the message in an earlier, partly failed attempt aren't sent it again
+    const alreadyDelivered = await this.deliveredTo(message.id);
+    const outstanding = verified.filter(address => !alreadyDelivered.includes(address));
+
+    const outcomes: DestinationOutcome[] = [];
+
+    if (verified.length === 0) {
+      outcomes.push({
+        destination: null,
+        result: {
+          success: false,
+          error: 'Alias has no verified forwarding destination',
+          provider: 'none',
+          permanent: true,
+        },
+        permanent: true,
+      });
+    } else if (outstanding.length > 0) {
+      let options: Awaited<ReturnType<typeof this.buildOptions>> | undefined;
+      const encryptionKeys = await ForwardingDestinations.encryptionKeys(alias.userId, outstanding);
+
+      for (const destination of outstanding) {
+        let result: ForwardResult;
+
+        try {
+          // Repeated hard bounces pause forwarding to the address until the owner resumes it
+          if (await BounceHandler.isSuppressed(alias.userId, destination)) {
+            result = {
+              success: false,
+              error: 'Forwarding to this address is paused after repeated bounces',
+              provider: 'none',
+              permanent: true,
+            };
+          } else {
+            options ??= await this.buildOptions(message, alias);
+            result = await EmailForwarder.forward({
+              ...options,
+              to: destination,
+              encryption: encryptionKeys.get(destination),
+            });
+          }
+        } catch (error) {
+          console.error(`Error forwarding email to ${destination}:`, error);
+          result = {
+            success: false,
+            error: error instanceof Error ? error.message : 'Unknown error',
+            provider: 'none',
+          };
+        }
+
+        outcomes.push({
+          destination,
+          result,
+          permanent: !result.success && this.isPermanent(result),
+        });
+      }
+    }
+
+    const failures = outcomes.filter(outcome => !outcome.result.success);
+    const delivered = outcomes.filter(outcome => outcome.result.success);
+    const success = failures.length === 0;
+    const permanent = !success && failures.every(outcome => outcome.permanent);
+    const nextRetryAt = success || permanent || attempt >= MAX_ATTEMPTS
+      ? null
+      : new Date(Date.now() + this.backoff(attempt));
+
+    const forwardedTo = [...alreadyDelivered, ...delivered.map(outcome => outcome.destination!)];
+    const error = failures
+      .map(outcome => outcome.destination ? `${outcome.destination}: ${outcome.result.error}` : outcome.result.error)
+      .join('; ');
+
+    await prisma.$transaction([
+      ...outcomes.map(({ destination, result, permanent }) =>
+        prisma.forwardAttempt.create({
+          data: {
+            emailMessageId: message.id,
+            attempt,
+            destination,
+            success: result.success,
+            provider: result.provider === 'none' ? null : result.provider,
+            providerMessageId: BounceHandler.normalizeMessageId(result.messageId),
+            headerMessageId: BounceHandler.normalizeMessageId(result.headerMessageId),
+            error: result.error,
+            statusCode: result.statusCode ?? result.responseCode,
+            permanent,
+            failedProviders: result.failedAttempts,
+            trigger,
+          },
+        })
+      ),
+      prisma.emailMessage.update({
+        where: { id: message.id },
+        data: success
+          ? {
+              status: 'DELIVERED',
+              forwardedTo: forwardedTo.join(', '),
+              forwardedAt: new Date(),
+              errorMessage: null,
+              attemptCount: attempt,
+              nextRetryAt: null,
+            }
+          : {
+              status: 'FAILED',
+              forwardedTo: forwardedTo.length > 0 ? forwardedTo.join(', ') : null,
+              errorMessage: error,
+              attemptCount: attempt,
+              nextRetryAt,
+            },
+      }),
+      ...delivered.map(({ destination, result }) =>
+        prisma.relayEvent.create({
+          data: {
+            aliasId: alias.id,
+            type: 'FORWARDED',
+            fromAddress: message.fromAddress,
+            toAddress: destination!,
+            subject: message.subject,
+            metadata: {
+              messageId: result.messageId,
+              provider: result.provider,
+              failedProviders: result.failedAttempts,
+              attempt,
+            },
+          },
+        })
+      ),
+    ]);
+
+    const result: ForwardResult = success
+      ? {
+          success: true,
+          messageId: delivered[0]?.result.messageId,
+          provider: delivered[0]?.result.provider ?? 'none',
+        }
+      : {
+          success: false,
+          error,
+          provider: failures[failures.length - 1].result.provider,
+          permanent,
+        };
+
+    return { result, destinations: outcomes, attempt, permanent, nextRetryAt };
+  }
+
+  /**
+   * Retry FAILED messages whose next attempt is due
+   */
+  static async runDue(options: RetryOptions = {}): Promise<RetryStats> {
+    const limit = options.limit || 50;
+    const stats: RetryStats = { delivered: 0, rescheduled: 0, abandoned: 0, skipped: 0 };
+    let handled = 0;
+
+    while (handled < limit && (!options.deadline || Date.now() < options.deadline)) {
+      const due = await prisma.emailMessage.findMany({
+        where: {
+          status: 'FAILED',
+          nextRetryAt: { lte: new Date() },
+        },
+        include: { alias: true },
+        orderBy: { nextRetryAt: 'asc' },
+        take: Math.min(10, limit - handled),
+      });
+
+      if (due.length === 0) break;
+
+      for (const { alias, ...message } of due) {
+        if (options.deadline && Date.now() >= options.deadline) break;
+        handled++;
+
+        if (!(await this.claim(message))) continue;
+
+        // The alias may have been killed since the first attempt
+        if (alias.status !== 'ACTIVE') {
+          await prisma.emailMessage.update({
+            where: { id: message.id },
+            data: { nextRetryAt: null },
+          });
+          stats.skipped++;
+          continue;
+        }
+
+        const outcome = await this.attempt(message, alias, 'scheduled');
+
+        if (outcome.result.success) stats.delivered++;
+        else if (outcome.nextRetryAt) stats.rescheduled++;
+        else stats.abandoned++;
+      }
+    }
+
+    return stats;
+  }
+
+  /**
+   * Retry a FAILED message immediately, whatever its schedule or attempt count
+   * Returns null if the message isn't FAILED (or another worker holds it)
+   */
+  static async retryNow(message: EmailMessage, alias: ForwardAlias): Promise<AttemptOutcome | null> {
+    if (!(await this.claim(message))) return null;
+    return this.attempt(message, alias, 'manual');
+  }
+
+  /**
+   * Temporary: transport errors, 5xx, 408/429 and SMTP 4xx. Permanent: other HTTP 4xx
+   * and SMTP 5xx, where the provider rejected the message itself.
+   */
+  static isPermanent(result: ForwardResult): boolean {
+    if (result.statusCode !== undefined) {
+      return result.statusCode >= 400 && result.statusCode < 500 &&
+        result.statusCode !== 408 && result.statusCode !== 429;
+    }
+
+    return result.permanent === true;
+  }
+
+  /**
+   * Destinations a message was already delivered to by earlier attempts
+   */
+  private static async deliveredTo(emailMessageId: string): Promise<string[]> {
+    const attempts = await prisma.forwardAttempt.findMany({
+      where: { emailMessageId, success: true, destination: { not: null } },
+      select: { destination: true },
+      distinct: ['destination'],
+    });
+
+    return attempts.map(attempt => attempt.destination!);
+  }
+
+  /**
+   * Message to the alias owner (without a recipient), rebuilt from the stored copy and
+   * its stored attachments. Reply-To is the correspondent's reverse alias, so replying
+   * never reveals the owner's address.
+   */
+  private static async buildOptions(message: EmailMessage, alias: ForwardAlias) {
+    const aliasEmail = `${alias.localPart}@${alias.domain}`;
+    let htmlBody = message.htmlBody || undefined;
+    let textBody = message.textBody || undefined;
+
+    const owner = await prisma.user.findUniqueOrThrow({
+      where: { id: alias.userId },
+      select: { minimalHeaders: true, bannerPosition: true, bannerHtml: true, bannerText: true, locale: true },
+    });
+    const bannerContext = {
+      aliasId: alias.id,
+      aliasEmail,
+      merchant: alias.merchant,
+      spamScore: message.spamScore,
+      trackersRemoved: message.trackersRemoved,
+    };
+
+    // Sanitize, unwrap tracking links and add the owner's banner
+    if (htmlBody) {
+      htmlBody = HtmlSanitizer.sanitize(htmlBody, { remoteImages: alias.remoteImages, unwrapLinks: true }).html;
+      htmlBody = ForwardBanner.addToHtml(htmlBody, owner, bannerContext);
+    }
+
+    if (textBody) {
+      textBody = LinkUnwrapper.rewriteText(textBody).text;
+      textBody = ForwardBanner.addToText(textBody, owner, bannerContext);
+    }
+
+    const correspondent = AddressParser.extractAddress(message.fromAddress);
+    const replyTo = correspondent ? await ReverseAlias.addressFor(alias.id, correspondent) : undefined;
+
+    const attachments = [];
+    for (const stored of await prisma.attachment.findMany({ where: { emailMessageId: message.id } })) {
+      const content = await AttachmentStore.read(stored.sha256);
+      if (!content) {
+        console.warn(`Attachment ${stored.id} is missing from the blob store; forwarding without it`);
+        continue;
+      }
+
+      attachments.push({
+        filename: stored.filename,
+        content: content.toString('base64'),
+        contentType: stored.contentType,
+        size: stored.size,
+      });
+    }
+
+    return {
+      from: `noreply@${alias.domain}`,
+      subject: message.subject || '(No subject)',
+      textBody,
+      htmlBody,
+      replyTo,
+      attachments: attachments.length > 0 ? attachments : undefined,
+      // Bounces come back to the relay (SRS), never to the original sender
+      envelopeFrom: Srs.forward(correspondent),
+      headers: {
+        [BounceHandler.MESSAGE_HEADER]: message.id,
+        'X-ZeroLeak-Alias': aliasEmail,
+        'X-ZeroLeak-Merchant': alias.merchant || 'unknown',
+      },
+      headerPolicy: { minimal: owner.minimalHeaders },
+    };
+  }
+
+  /**
+   * Take a FAILED message for this run by pushing its nextRetryAt out by a lease;
+   * the conditional update fails if another run got there first
+   */
+  private static async claim(message: EmailMessage): Promise<boolean> {
+    const claimed = await prisma.emailMessage.updateMany({
+      where: {
+        id: message.id,
+        status: 'FAILED',
+        nextRetryAt: message.nextRetryAt,
+      },
+      data: { nextRetryAt: new Date(Date.now() + CLAIM_LEASE_MS) },
+    });
+
+    return claimed.count === 1;
+  }
+
+  /**
+   * Exponential backoff: 5m, 10m, 20m, 40m... capped at six hours
+   */
+  private static backoff(attempts: number): number {
+    return Math.min(BASE_BACKOFF_MS * 2 ** (attempts - 1), MAX_BACKOFF_MS);
+  }
+}
@@ -0,0 +1,177 @@
+/**
+ * Forwarding Destinations Service
+ * Mailboxes a user forwards alias mail to. A destination only receives mail once
+ * its owner has followed the link we email to it, and an alias forwards to every
+ * verified destination linked to it.
+ */
+
+import { createHash, randomBytes } from 'crypto';
+import { Prisma, type Alias, type ForwardingDestination } from '@prisma/client';
+import prisma from '@/lib/prisma';
+import { EmailForwarder, type ForwardResult } from '@/lib/services/email-forwarder';
+import type { EncryptionKey } from '@/lib/services/mail-encryption';
+
+export type DestinationAlias = Pick<Alias, 'id' | 'userId' | 'forwardTo'>;
+
+type DbClient = Prisma.TransactionClient | typeof prisma;
+
+// Verification links stop working after a day
+const VERIFICATION_TTL_MS = 24 * 60 * 60 * 1000;
+
+// A new link can't be requested more often than this, so the flow can't be used to mail-bomb an address
+const RESEND_INTERVAL_MS = 60 * 1000;
+
+export class ForwardingDestinations {
+  /**
+   * Most destinations one user can add
+   */
+  static readonly MAX_PER_USER = 10;
+
+  /**
+   * Verified addresses an alias forwards to (lowercased). Linked destinations win;
+   * an alias without any falls back to its legacy forwardTo, but only if the owner
+   * has verified that address. The account email counts as verified (Clerk verified
+   * it at sign-up), so aliases from before destinations existed keep forwarding.
+   */
+  static async resolve(alias: DestinationAlias, db: DbClient = prisma): Promise<string[]> {
+    const linked = await db.aliasDestination.findMany({
+      where: { aliasId: alias.id },
+      include: { destination: true },
+      orderBy: { createdAt: 'asc' },
+    });
+
+    if (linked.length > 0) {
+      return linked
+        .filter(link => link.destination.verifiedAt)
+        .map(link => link.destination.email);
+    }
+
+    if (!alias.forwardTo) return [];
+
+    const legacy = await db.forwardingDestination.findUnique({
+      where: { userId_email: { userId: alias.userId, email: alias.forwardTo.toLowerCase() } },
+    });
+
+    if (legacy?.verifiedAt) return [legacy.email];
+
+    const owner = await db.user.findUnique({
+      where: { id: alias.userId },
+      select: { email: true },
+    });
+
+    return owner && owner.email.toLowerCase() === alias.forwardTo.toLowerCase()
+      ? [owner.email.toLowerCase()]
+      : [];
+  }
+
+  /**
+   * Encryption keys of a user's destinations, by address; destinations without one are left out
+   */
+  static async encryptionKeys(
+    userId: string,
+    addresses: string[],
+    db: DbClient = prisma
+  ): Promise<Map<string, EncryptionKey>> {
+    const destinations = await db.forwardingDestination.findMany({
+      where: { userId, email: { in: addresses }, encryptionKey: { not: null } },
+      select: { email: true, encryptionType: true, encryptionKey: true },
+    });
+
+    return new Map(destinations.map(destination => [
+      destination.email,
+      { type: destination.encryptionType!, key: destination.encryptionKey! },
+    ]));
+  }
+
+  /**
+   * Email a fresh verification link to an unverified destination. Returns null when
+   * the previous link was sent too recently.
+   */
+  static async sendVerification(destination: ForwardingDestination): Promise<ForwardResult | null> {
+    if (destination.verificationSentAt &&
+        Date.now() - destination.verificationSentAt.getTime() < RESEND_INTERVAL_MS) {
+      return null;
+    }
+
+    const token = randomBytes(32).toString('hex');
+
+    await prisma.forwardingDestination.update({
+      where: { id: destination.id },
+      data: {
+        verificationToken: this.hashToken(token),
+        verificationSentAt: new Date(),
+      },
+    });
+
+    const link = `${this.appUrl()}/api/forwarding/destinations/verify?token=${token}`;
+
+    return EmailForwarder.forward({
+      from: `noreply@${this.relayDomain()}`,
+      to: destination.email,
+      subject: 'Confirm your ZeroLeak forwarding address',
+      textBody: [
+        'Someone asked ZeroLeak to forward alias mail to this address.',
+        '',
+        `If it was you, confirm it within 24 hours: ${link}`,
+        '',
+        'If it wasn\'t, ignore this message: nothing is forwarded until the address is confirmed.',
+      ].join('\n'),
+      htmlBody: `
+        <p>Someone asked ZeroLeak to forward alias mail to this address.</p>
+        <p>If it was you, <a href="${link}">confirm it</a> within 24 hours.</p>
+        <p>If it wasn't, ignore this message: nothing is forwarded until the address is confirmed.</p>
+      `,
+    });
+  }
+
+  /**
+   * Verify the destination a link was sent for. Returns null if the token is unknown,
+   * already used or expired.
+   */
+  static async verify(token: string): Promise<ForwardingDestination | null> {
+    const destination = await this.findByToken(token);
+    if (!destination) {
+      return null;
+    }
+
+    return prisma.forwardingDestination.update({
+      where: { id: destination.id },
+      data: {
+        verifiedAt: new Date(),
+        verificationToken: null,
+      },
+    });
+  }
+
+  /**
+   * Look up the destination a link was sent for without verifying it. Returns null
+   * if the token is unknown, already used or expired.
+   */
+  static async findByToken(token: string): Promise<ForwardingDestination | null> {
+    const destination = await prisma.forwardingDestination.findUnique({
+      where: { verificationToken: this.hashToken(token) },
+    });
+
+    if (!destination?.verificationSentAt ||
+        Date.now() - destination.verificationSentAt.getTime() > VERIFICATION_TTL_MS) {
+      return null;
+    }
+
+    return destination;
+  }
+
+  /**
+   * Only a hash of the token is stored, so a database read can't verify an address
+   */
+  private static hashToken(token: string): string {
+    return createHash('sha256').update(token).digest('hex');
+  }
+
+  private static appUrl(): string {
+    return (process.env.APP_URL || 'https://zeroleak.app').replace(/\/+$/, '');
+  }
+
+  private static relayDomain(): string {
+    return (process.env.RELAY_DOMAIN || 'mail.zeroleak.app').toLowerCase();
+  }
+}
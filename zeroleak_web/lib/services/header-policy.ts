@@ -0,0 +1,69 @@
+/**
+ * Header Policy Service
+ * Decides which headers leave with forwarded mail, replies and digests. Only allow-listed
+ * headers pass, so nothing from the original message or the user's mail client (provider
+ * X- headers, Received chains, Message-IDs) can tie a user's aliases together.
+ */
+
+import { randomBytes } from 'crypto';
+
+export interface HeaderPolicyOptions {
+  minimal?: boolean; // The user's "minimal headers" setting: leave out the merchant
+}
+
+// Headers that may be sent, lowercase; FORWARD_HEADER_ALLOWLIST adds to these
+const ALLOWED_HEADERS = [
+  'in-reply-to', // Threading for replies
+  'references',
+  'x-zeroleak-message-id', // BounceHandler.MESSAGE_HEADER: matches bounces to the message
+  'x-zeroleak-alias',
+  'x-zeroleak-merchant',
+];
+
+// Left out in minimal mode
+const MINIMAL_DROPPED_HEADERS = ['x-zeroleak-merchant'];
+
+export class HeaderPolicy {
+  /**
+   * The headers that pass the policy, plus a Message-ID of our own so the outgoing
+   * message doesn't carry a provider's or client's ID pattern
+   */
+  static apply(headers: Record<string, string> | undefined, options: HeaderPolicyOptions = {}): Record<string, string> {
+    const allowed = this.allowed(options);
+    const kept: Record<string, string> = {};
+
+    for (const [name, value] of Object.entries(headers || {})) {
+      if (allowed.includes(name.toLowerCase())) {
+        kept[name] = value;
+      }
+    }
+
+    kept['Message-ID'] = this.messageId();
+    return kept;
+  }
+
+  /**
+   * Names (lowercase) of the headers allowed through under the options
+   */
+  static allowed(options: HeaderPolicyOptions = {}): string[] {
+    const configured = (process.env.FORWARD_HEADER_ALLOWLIST || '')
+      .split(',')
+      .map(name => name.trim().toLowerCase())
+      .filter(Boolean);
+
+    return [...ALLOWED_HEADERS, ...configured].filter(name =>
+      !(options.minimal && MINIMAL_DROPPED_HEADERS.includes(name))
+    );
+  }
+
+  /**
+   * Random Message-ID on the relay domain, the same shape for every user and alias
+   */
+  private static messageId(): string {
+    return `<${randomBytes(16).toString('hex')}@${this.relayDomain()}>`;
+  }
+
+  private static relayDomain(): string {
+    return (process.env.RELAY_DOMAIN || 'mail.zeroleak.app').toLowerCase();
+  }
+}
@@ -0,0 +1,325 @@
+/**
+ * HTML Sanitizer Service
+ * Parses message HTML and rebuilds it from an allowlist of elements and attributes.
+ * Open-tracking pixels, hidden images and CSS beacons are removed and counted, and
+ * scripts, event handlers and unsafe URLs never make it into forwards or the dashboard.
+ * Other remote images are proxied, blocked or left alone, as the caller asks, and
+ * click-tracking links can be unwrapped to their destination.
+ */
+
+import { parseDocument } from 'htmlparser2';
+import { Element, Text, isComment, isDirective, isTag, isText, type ChildNode, type ParentNode } from 'domhandler';
+import render from 'dom-serializer';
+import { TRACKER_DOMAINS, TRACKER_PATH_PATTERNS } from '@/lib/tracker-blocklist';
+import { ImageProxy, type RemoteImagePolicy } from '@/lib/services/image-proxy';
+import { LinkUnwrapper, type LinkRewrite } from '@/lib/services/link-unwrapper';
+
+export interface SanitizeOptions {
+  remoteImages?: RemoteImagePolicy; // What happens to remote images that aren't trackers (default ORIGINAL)
+  unwrapLinks?: boolean; // Rewrite click-tracking links to their destination
+}
+
+export interface SanitizedHtml {
+  html: string;
+  trackersRemoved: number;
+  linkRewrites: LinkRewrite[];
+}
+
+interface SanitizeState {
+  trackersRemoved: number;
+  remoteImages: RemoteImagePolicy;
+  unwrapLinks: boolean;
+  linkRewrites: LinkRewrite[];
+}
+
+// Kept as-is (with their allowed attributes)
+const ALLOWED_ELEMENTS = new Set([
+  'html', 'head', 'body', 'style',
+  'div', 'span', 'p', 'br', 'hr', 'a', 'img', 'font', 'center',
+  'b', 'strong', 'i', 'em', 'u', 's', 'strike', 'sub', 'sup', 'small', 'big', 'mark', 'del', 'ins',
+  'abbr', 'address', 'cite', 'q', 'code', 'pre', 'blockquote', 'wbr', 'bdi', 'bdo',
+  'h1', 'h2', 'h3', 'h4', 'h5', 'h6', 'ul', 'ol', 'li', 'dl', 'dt', 'dd',
+  'table', 'thead', 'tbody', 'tfoot', 'tr', 'td', 'th', 'caption', 'colgroup', 'col',
+  'section', 'article', 'header', 'footer', 'main', 'nav', 'aside', 'figure', 'figcaption',
+  'details', 'summary', 'label',
+]);
+
+// Removed together with everything inside them; any other element is unwrapped (children kept)
+const DROPPED_ELEMENTS = new Set([
+  'script', 'noscript', 'template', 'iframe', 'frame', 'frameset', 'object', 'embed', 'applet',
+  'svg', 'math', 'canvas', 'audio', 'video', 'source', 'track',
+  'meta', 'link', 'base', 'title', 'input', 'select', 'textarea', 'option', 'xml',
+]);
+
+const ALLOWED_ATTRIBUTES = new Set([
+  'align', 'valign', 'width', 'height', 'bgcolor', 'color', 'border', 'cellpadding', 'cellspacing',
+  'colspan', 'rowspan', 'span', 'scope', 'headers', 'nowrap', 'face', 'size', 'dir', 'lang',
+  'title', 'alt', 'style', 'class', 'start', 'type', 'datetime', 'clear', 'hspace', 'vspace',
+  'background', 'href', 'src', 'target',
+]);
+
+const SAFE_LINK = /^(https?:|mailto:|tel:)/i;
+const SAFE_INLINE_IMAGE = /^(cid:|data:image\/(png|gif|jpe?g|webp|bmp);)/i;
+const REMOTE = /^https?:/i;
+
+// An image this small (or zero in either dimension) is invisible: a beacon, not content
+const MAX_PIXEL_SIZE = 2;
+
+export class HtmlSanitizer {
+  /**
+   * Sanitize message HTML and count the trackers that were removed
+   */
+  static sanitize(html: string, options: SanitizeOptions = {}): SanitizedHtml {
+    const document = parseDocument(html, { decodeEntities: true, lowerCaseAttributeNames: true });
+    const state: SanitizeState = {
+      trackersRemoved: 0,
+      remoteImages: options.remoteImages || 'ORIGINAL',
+      unwrapLinks: options.unwrapLinks || false,
+      linkRewrites: [],
+    };
+
+    this.cleanChildren(document, state);
+
+    return {
+      html: render(document, { encodeEntities: 'utf8' }),
+      trackersRemoved: state.trackersRemoved,
+      linkRewrites: LinkUnwrapper.merge(state.linkRewrites),
+    };
+  }
+
+  /**
+   * Whether a URL belongs to a known tracker, by host or by open-tracking path
+   */
+  static isTracker(url: string): boolean {
+    let parsed: URL;
+    try {
+      parsed = new URL(url);
+    } catch {
+      return false;
+    }
+
+    const host = parsed.hostname.toLowerCase();
+    if (TRACKER_DOMAINS.some(domain => host === domain || host.endsWith(`.${domain}`))) {
+      return true;
+    }
+
+    const path = parsed.pathname + parsed.search;
+    return TRACKER_PATH_PATTERNS.some(pattern => pattern.test(path));
+  }
+
+  /**
+   * Rewrite a stylesheet or style attribute: remote imports and tracker url()s are
+   * removed (and counted), script-capable constructs are neutralised
+   */
+  private static sanitizeCss(css: string, state: SanitizeState): string {
+    return css
+      // Comments and escapes could otherwise hide the patterns below
+      .replace(/\/\*[\s\S]*?\*\//g, '')
+      .replace(/\\[0-9a-f]{1,6}\s?/gi, '')
+      .replace(/\\/g, '')
+      .replace(/@import[^;]*;?/gi, () => {
+        state.trackersRemoved++;
+        return '';
+      })
+      .replace(/(-webkit-)?image-set\([^)]*\)/gi, match => {
+        if (this.remoteUrls(match).some(url => this.isTracker(url))) state.trackersRemoved++;
+        return 'none';
+      })
+      .replace(/url\(\s*(['"]?)([^'")]*)\1\s*\)/gi, (match, _quote, url: string) => {
+        const target = url.trim();
+        if (SAFE_INLINE_IMAGE.test(target)) return match;
+        if (!REMOTE.test(target)) return 'none';
+
+        if (this.isTracker(target)) {
+          state.trackersRemoved++;
+          return 'none';
+        }
+
+        const rewritten = this.remoteImage(target, state);
+        return rewritten ? `url("${rewritten}")` : 'none';
+      })
+      .replace(/expression\s*\(/gi, '(')
+      .replace(/(behavior|-moz-binding)\s*:[^;}]*/gi, '')
+      .replace(/javascript:/gi, '')
+      .replace(/<\//g, '<\\/');
+  }
+
+  private static cleanChildren(parent: ParentNode, state: SanitizeState) {
+    const children: ChildNode[] = [];
+
+    for (const child of parent.children) {
+      children.push(...this.cleanNode(child, state));
+    }
+
+    parent.children = children;
+    children.forEach((child, index) => {
+      child.parent = parent;
+      child.prev = children[index - 1] || null;
+      child.next = children[index + 1] || null;
+    });
+  }
+
+  /**
+   * Nodes that replace one node: itself, nothing (dropped) or its children (unwrapped)
+   */
+  private static cleanNode(node: ChildNode, state: SanitizeState): ChildNode[] {
+    if (isText(node)) return [node];
+    if (isDirective(node)) return [node];
+
+    // Comments carry Outlook conditional blocks, which may hide VML beacons
+    if (isComment(node) || !isTag(node)) return [];
+
+    const name = node.name.toLowerCase();
+
+    if (DROPPED_ELEMENTS.has(name)) {
+      if (name === 'source') this.countSrcset(node, state);
+      return [];
+    }
+
+    if (name === 'style') {
+      const css = node.children.filter(isText).map(text => text.data).join('');
+      node.attribs = {};
+      node.children = [new Text(this.sanitizeCss(css, state))];
+      node.children[0].parent = node;
+      return [node];
+    }
+
+    this.cleanChildren(node, state);
+
+    if (!ALLOWED_ELEMENTS.has(name)) {
+      return node.children;
+    }
+
+    this.cleanAttributes(node, state);
+
+    if (name === 'img') {
+      if (!this.keepImage(node, state)) return [];
+
+      if (REMOTE.test(node.attribs.src)) {
+        const rewritten = this.remoteImage(node.attribs.src, state);
+        if (!rewritten) {
+          // A blocked image leaves its description behind
+          return node.attribs.alt ? [new Text(`[${node.attribs.alt}]`)] : [];
+        }
+        node.attribs.src = rewritten;
+      }
+    }
+
+    return [node];
+  }
+
+  private static cleanAttributes(element: Element, state: SanitizeState) {
+    const attribs: Record<string, string> = {};
+
+    for (const [name, value] of Object.entries(element.attribs)) {
+      if (!ALLOWED_ATTRIBUTES.has(name)) continue;
+
+      if (name === 'style') {
+        attribs.style = this.sanitizeCss(value, state);
+      } else if (name === 'href') {
+        if (element.name === 'a' && SAFE_LINK.test(value.trim())) attribs.href = this.link(value.trim(), state);
+      } else if (name === 'src') {
+        if (element.name === 'img') attribs.src = value.trim();
+      } else if (name === 'background') {
+        const url = value.trim();
+        if (REMOTE.test(url) && this.isTracker(url)) {
+          state.trackersRemoved++;
+        } else if (REMOTE.test(url)) {
+          const rewritten = this.remoteImage(url, state);
+          if (rewritten) attribs.background = rewritten;
+        } else if (SAFE_INLINE_IMAGE.test(url)) {
+          attribs.background = url;
+        }
+      } else if (name !== 'target') {
+        attribs[name] = value;
+      }
+    }
+
+    // Links open outside the viewer and don't tell the destination where they came from
+    if (element.name === 'a' && attribs.href) {
+      attribs.target = '_blank';
+      attribs.rel = 'noopener noreferrer';
+    }
+
+    this.countSrcset(element, state);
+    element.attribs = attribs;
+  }
+
+  /**
+   * Whether an image stays. Remote images on a tracker host or too small to see are
+   * beacons and are counted; images without a usable source are dropped silently.
+   */
+  private static keepImage(image: Element, state: SanitizeState): boolean {
+    const src = image.attribs.src || '';
+
+    if (SAFE_INLINE_IMAGE.test(src)) return true;
+    if (!REMOTE.test(src)) return false;
+
+    if (this.isTracker(src) || this.isHidden(image)) {
+      state.trackersRemoved++;
+      return false;
+    }
+
+    return true;
+  }
+
+  private static isHidden(image: Element): boolean {
+    const style = (image.attribs.style || '').toLowerCase();
+
+    if (/display\s*:\s*none|visibility\s*:\s*hidden|opacity\s*:\s*0*(\.0+)?\s*(;|$)/.test(style)) {
+      return true;
+    }
+
+    const dimension = (attribute: string): number | undefined => {
+      const fromStyle = style.match(new RegExp(`(?:^|;|\\s)(?:max-)?${attribute}\\s*:\\s*(\\d+(?:\\.\\d+)?)(px)?\\s*(;|$)`));
+      const value = fromStyle ? fromStyle[1] : image.attribs[attribute];
+      if (value === undefined || !/^\s*\d+(\.\d+)?\s*(px)?\s*$/.test(value)) return undefined;
+      return parseFloat(value);
+    };
+
+    const width = dimension('width');
+    const height = dimension('height');
+
+    if (width === 0 || height === 0) return true;
+    return width !== undefined && height !== undefined && width <= MAX_PIXEL_SIZE && height <= MAX_PIXEL_SIZE;
+  }
+
+  /**
+   * srcset candidates are never kept (the src is enough); trackers among them are counted
+   */
+  private static countSrcset(element: Element, state: SanitizeState) {
+    const srcset = element.attribs.srcset;
+    if (!srcset) return;
+
+    const urls = srcset.split(',').map(candidate => candidate.trim().split(/\s+/)[0]);
+    if (urls.some(url => REMOTE.test(url) && this.isTracker(url))) {
+      state.trackersRemoved++;
+    }
+  }
+
+  /**
+   * A link's clean destination when unwrapping is on, recording the rewrite
+   */
+  private static link(href: string, state: SanitizeState): string {
+    const rewrite = state.unwrapLinks ? LinkUnwrapper.unwrap(href) : null;
+    if (!rewrite) return href;
+
+    state.linkRewrites.push(rewrite);
+    return rewrite.url;
+  }
+
+  /**
+   * Where a remote (non-tracker) image is loaded from under the policy: through the
+   * proxy, from the original URL, or nowhere (null). Without IMAGE_PROXY_SECRET the
+   * proxy is off, and images that would go through it are blocked rather than leaked.
+   */
+  private static remoteImage(url: string, state: SanitizeState): string | null {
+    if (state.remoteImages === 'BLOCK') return null;
+    if (state.remoteImages === 'ORIGINAL') return url;
+    return ImageProxy.url(url);
+  }
+
+  private static remoteUrls(css: string): string[] {
+    return [...css.matchAll(/https?:[^'")\s]+/gi)].map(match => match[0]);
+  }
+}
@@ -0,0 +1,239 @@
+/**
+ * Image Proxy Service
+ * Remote images in forwarded and viewed mail are loaded through signed proxy URLs, so
+ * senders see our server fetch the image once instead of the reader opening the message.
+ * Fetched images are cached in the blob store.
+ */
+
+import { createHash, createHmac, timingSafeEqual } from 'crypto';
+import { promises as dns } from 'dns';
+import http from 'http';
+import https from 'https';
+import { BlockList, isIP } from 'net';
+import { getBlobStore } from '@/lib/services/blob-store';
+
+export type RemoteImagePolicy = 'PROXY' | 'BLOCK' | 'ORIGINAL';
+
+export interface ProxiedImage {
+  content: Buffer;
+  contentType: string;
+}
+
+// Redirects are followed (each hop re-checked) up to this many times
+const MAX_REDIRECTS = 3;
+
+const FETCH_TIMEOUT_MS = 10 * 1000;
+
+// Only the default ports, so the proxy can't be used to probe other services
+const ALLOWED_PORTS = ['', '80', '443'];
+
+// Loopback, private, link-local, CGNAT, multicast and reserved ranges are never fetched
+const BLOCKED_ADDRESSES = new BlockList();
+for (const [network, prefix] of [
+  ['0.0.0.0', 8], ['10.0.0.0', 8], ['100.64.0.0', 10], ['127.0.0.0', 8], ['169.254.0.0', 16],
+  ['172.16.0.0', 12], ['192.0.0.0', 24], ['192.168.0.0', 16], ['198.18.0.0', 15], ['224.0.0.0', 3],
+] as const) {
+  BLOCKED_ADDRESSES.addSubnet(network, prefix, 'ipv4');
+}
+for (const [network, prefix] of [
+  ['::', 127], ['::ffff:0:0', 96], ['64:ff9b::', 96], ['fc00::', 7], ['fe80::', 10], ['ff00::', 8],
+] as const) {
+  BLOCKED_ADDRESSES.addSubnet(network, prefix, 'ipv6');
+}
+
+// Signatures of the image formats we pass through; SVG is excluded because it can carry script
+const IMAGE_SIGNATURES: { type: string; matches: (data: Buffer) => boolean }[] = [
+  { type: 'image/png', matches: data => data.subarray(0, 8).equals(Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a])) },
+  { type: 'image/jpeg', matches: data => data[0] === 0xff && data[1] === 0xd8 && data[2] === 0xff },
+  { type: 'image/gif', matches: data => /^GIF8[79]a/.test(data.subarray(0, 6).toString('latin1')) },
+  { type: 'image/webp', matches: data => data.subarray(0, 4).toString('latin1') === 'RIFF' && data.subarray(8, 12).toString('latin1') === 'WEBP' },
+  { type: 'image/bmp', matches: data => data.subarray(0, 2).toString('latin1') === 'BM' },
+  { type: 'image/x-icon', matches: data => data.subarray(0, 4).equals(Buffer.from([0x00, 0x00, 0x01, 0x00])) },
+  { type: 'image/avif', matches: data => data.subarray(4, 12).toString('latin1') === 'ftypavif' },
+];
+
+export class ImageProxy {
+  /**
+   * Proxy URL for a remote image, or null when the proxy isn't configured (IMAGE_PROXY_SECRET)
+   */
+  static url(original: string): string | null {
+    const secret = process.env.IMAGE_PROXY_SECRET;
+    if (!secret) return null;
+
+    const params = new URLSearchParams({ url: original, sig: this.sign(secret, original) });
+    return `${this.appUrl()}/api/image-proxy?${params}`;
+  }
+
+  /**
+   * Whether a proxy URL's signature matches, i.e. we generated it
+   */
+  static verify(original: string, signature: string): boolean {
+    const secret = process.env.IMAGE_PROXY_SECRET;
+    if (!secret || !/^[0-9a-f]{32}$/.test(signature)) return false;
+
+    return timingSafeEqual(Buffer.from(this.sign(secret, original)), Buffer.from(signature));
+  }
+
+  /**
+   * The image behind a URL, from the cache or fetched now. Null when it can't be
+   * fetched, is too large or isn't an image.
+   */
+  static async get(original: string): Promise<ProxiedImage | null> {
+    const store = getBlobStore();
+    const key = this.cacheKey(original);
+
+    const cached = await store.get(key);
+    if (cached) {
+      const contentType = this.sniff(cached);
+      if (contentType) return { content: cached, contentType };
+    }
+
+    const content = await this.fetchRemote(original);
+    const contentType = content && this.sniff(content);
+    if (!content || !contentType) return null;
+
+    await store.put(key, content, contentType);
+    return { content, contentType };
+  }
+
+  /**
+   * Content type from the image's magic bytes, or null if it isn't a supported image
+   */
+  static sniff(data: Buffer): string | null {
+    return IMAGE_SIGNATURES.find(signature => signature.matches(data))?.type || null;
+  }
+
+  /**
+   * Fetch without cookies or referrer, following redirects. Every hop must be http(s) on
+   * a default port, and the connection is pinned to the address we checked.
+   */
+  private static async fetchRemote(original: string): Promise<Buffer | null> {
+    let url = original;
+
+    for (let hop = 0; hop <= MAX_REDIRECTS; hop++) {
+      let parsed: URL;
+      try {
+        parsed = new URL(url);
+      } catch {
+        return null;
+      }
+
+      if (!['http:', 'https:'].includes(parsed.protocol) || !ALLOWED_PORTS.includes(parsed.port) ||
+          parsed.username || parsed.password) {
+        return null;
+      }
+
+      const address = await this.resolvePublic(parsed.hostname);
+      if (!address) return null;
+
+      const response = await this.request(parsed, address);
+      if (!response) return null;
+
+      if (response.redirect) {
+        url = new URL(response.redirect, parsed).toString();
+        continue;
+      }
+
+      return response.content || null;
+    }
+
+    return null;
+  }
+
+  /**
+   * First address of a host, unless any of its addresses is internal
+   */
+  private static async resolvePublic(hostname: string): Promise<{ address: string; family: number } | null> {
+    const host = hostname.replace(/^\[|\]$/g, '');
+    let addresses: { address: string; family: number }[];
+
+    try {
+      addresses = isIP(host)
+        ? [{ address: host, family: isIP(host) }]
+        : await dns.lookup(host, { all: true, verbatim: true });
+    } catch {
+      return null;
+    }
+
+    const blocked = addresses.some(({ address, family }) =>
+      BLOCKED_ADDRESSES.check(address, family === 6 ? 'ipv6' : 'ipv4')
+    );
+
+    return addresses.length > 0 && !blocked ? addresses[0] : null;
+  }
+
+  private static request(
+    url: URL,
+    resolved: { address: string; family: number }
+  ): Promise<{ content?: Buffer; redirect?: string } | null> {
+    const maxBytes = parseInt(process.env.IMAGE_PROXY_MAX_BYTES || '', 10) || 5 * 1024 * 1024;
+    const client = url.protocol === 'https:' ? https : http;
+
+    return new Promise(resolve => {
+      const req = client.get(url, {
+        headers: {
+          'User-Agent': 'ZeroLeak-ImageProxy/1.0',
+          Accept: 'image/*',
+        },
+        timeout: FETCH_TIMEOUT_MS,
+        // Connect to the address that was checked, not whatever DNS answers next
+        lookup: (_hostname, options, callback) => {
+          if (options.all) {
+            callback(null, [resolved]);
+          } else {
+            callback(null, resolved.address, resolved.family);
+          }
+        },
+      }, res => {
+        const status = res.statusCode || 0;
+
+        if (status >= 300 && status < 400 && res.headers.location) {
+          res.resume();
+          resolve({ redirect: res.headers.location });
+          return;
+        }
+
+        const contentType = (res.headers['content-type'] || '').toLowerCase();
+        const declaredLength = parseInt(res.headers['content-length'] || '0', 10);
+
+        if (status !== 200 || !contentType.startsWith('image/') || contentType.includes('svg') ||
+            declaredLength > maxBytes) {
+          res.resume();
+          resolve(null);
+          return;
+        }
+
+        const chunks: Buffer[] = [];
+        let size = 0;
+
+        res.on('data', (chunk: Buffer) => {
+          size += chunk.length;
+          if (size > maxBytes) {
+            req.destroy();
+            resolve(null);
+            return;
+          }
+          chunks.push(chunk);
+        });
+        res.on('end', () => resolve({ content: Buffer.concat(chunks) }));
+        res.on('error', () => resolve(null));
+      });
+
+      req.on('timeout', () => req.destroy());
+      req.on('error', () => resolve(null));
+    });
+  }
+
+  private static sign(secret: string, original: string): string {
+    return createHmac('sha256', secret).update(original).digest('hex').substring(0, 32);
+  }
+
+  private static cacheKey(original: string): string {
+    const hash = createHash('sha256').update(original).digest('hex');
+    return `image-proxy/${hash.substring(0, 2)}/${hash.substring(2, 4)}/${hash}`;
+  }
+
+  private static appUrl(): string {
+    return (process.env.APP_URL || 'https://zeroleak.app').replace(/\/+$/, '');
+  }
+}
@@ -0,0 +1,338 @@
+/**
+ * Inbound Queue Service
+ * Postgres-backed job queue between receiving a message and running the pipeline,
+ * so webhooks return as soon as the message is durably stored
+ * Failed jobs retry with exponential backoff, then move to a dead-letter table
+ * Attachments and the raw MIME go to the blob store first; jobs only carry their keys
+ */
+
+import { hostname } from 'os';
+import { createHash, randomBytes } from 'crypto';
+import { Prisma, type InboundJob } from '@prisma/client';
+import prisma from '@/lib/prisma';
+import { AttachmentStore, type SavedAttachment } from '@/lib/services/attachment-store';
+import { getBlobStore } from '@/lib/services/blob-store';
+import { EmailProcessor, type StageTimings } from '@/lib/services/email-processor';
+import type { ParsedEmail } from '@/lib/services/email-parser';
+
+export interface WorkOptions {
+  batchSize?: number;
+  maxJobs?: number;
+  deadline?: number; // Epoch ms after which no new batch is claimed
+}
+
+export interface WorkStats {
+  processed: number;
+  retried: number;
+  deadLettered: number;
+}
+
+// Job payload: the parsed message with its content replaced by blob store references
+type QueuedEmail = Omit<ParsedEmail, 'attachments' | 'rawMime'> & {
+  attachments?: SavedAttachment[];
+  rawMimeKey?: string;
+};
+
+const BASE_BACKOFF_MS = 30 * 1000;
+const MAX_BACKOFF_MS = 60 * 60 * 1000;
+
+// A RUNNING job locked for this long is assumed to belong to a crashed worker
+const STALE_LOCK_MS = 10 * 60 * 1000;
+
+// Completed jobs are kept briefly for timing inspection
+const COMPLETED_RETENTION_MS = 7 * 24 * 60 * 60 * 1000;
+
+// Dead letters (and their content) are kept this long for an admin to requeue them
+const DEAD_LETTER_RETENTION_MS = 30 * 24 * 60 * 60 * 1000;
+
+// Enqueueing writes blobs inside its transaction, which takes longer than Prisma's 5s default
+const BLOB_TRANSACTION_TIMEOUT_MS = 60 * 1000;
+
+const WORKER_ID = `${hostname()}:${process.pid}:${randomBytes(3).toString('hex')}`;
+
+export class InboundQueue {
+  /**
+   * Durably store a parsed message for processing
+   * @param timings Stages already completed before enqueueing (e.g. parse)
+   */
+  static async enqueue(email: ParsedEmail, source: string, timings: StageTimings = {}): Promise<InboundJob> {
+    const { attachments, rawMime, ...message } = email;
+
+    // The blobs stay locked until the job that references them is committed
+    return prisma.$transaction(async tx => {
+      const payload: QueuedEmail = {
+        ...message,
+        attachments: await AttachmentStore.save(attachments, tx),
+        rawMimeKey: rawMime ? await this.saveRawMime(rawMime, tx) : undefined,
+      };
+
+      return tx.inboundJob.create({
+        data: {
+          source,
+          payload: payload as unknown as Prisma.InputJsonValue,
+          timings,
+        },
+      });
+    }, { timeout: BLOB_TRANSACTION_TIMEOUT_MS });
+  }
+
+  /**
+   * Claim and run jobs until the queue is empty or a limit is hit
+   */
+  static async work(options: WorkOptions = {}): Promise<WorkStats> {
+    const batchSize = options.batchSize || 10;
+    const stats: WorkStats = { processed: 0, retried: 0, deadLettered: 0 };
+    let handled = 0;
+
+    while (!options.deadline || Date.now() < options.deadline) {
+      const limit = options.maxJobs ? Math.min(batchSize, options.maxJobs - handled) : batchSize;
+      if (limit <= 0) break;
+
+      const jobs = await this.claim(limit);
+      if (jobs.length === 0) break;
+
+      for (const job of jobs) {
+        const outcome = await this.run(job);
+        stats[outcome]++;
+        handled++;
+      }
+    }
+
+    return stats;
+  }
+
+  /**
+   * Move a dead-lettered message back onto the queue
+   */
+  static async requeue(deadLetterId: string): Promise<InboundJob | null> {
+    const deadLetter = await prisma.inboundDeadLetter.findUnique({
+      where: { id: deadLetterId },
+    });
+
+    if (!deadLetter || deadLetter.requeuedAt) return null;
+
+    return prisma.$transaction(async tx => {
+      const job = await tx.inboundJob.create({
+        data: {
+          source: deadLetter.source,
+          payload: deadLetter.payload as Prisma.InputJsonValue,
+        },
+      });
+
+      await tx.inboundDeadLetter.update({
+        where: { id: deadLetter.id },
+        data: {
+          requeuedAt: new Date(),
+          requeuedJobId: job.id,
+        },
+      });
+
+      return job;
+    });
+  }
+
+  /**
+   * Delete completed jobs and dead letters past their retention windows, with the
+   * blobs nothing else still needs
+   */
+  static async purgeCompleted(): Promise<number> {
+    const completed: Prisma.InboundJobWhereInput = {
+      status: 'COMPLETED',
+      completedAt: { lt: new Date(Date.now() - COMPLETED_RETENTION_MS) },
+    };
+    const expired: Prisma.InboundDeadLetterWhereInput = {
+      failedAt: { lt: new Date(Date.now() - DEAD_LETTER_RETENTION_MS) },
+    };
+
+    const [jobs, deadLetters] = await Promise.all([
+      prisma.inboundJob.findMany({ where: completed, select: { payload: true } }),
+      prisma.inboundDeadLetter.findMany({ where: expired, select: { payload: true } }),
+    ]);
+
+    const { count } = await prisma.inboundJob.deleteMany({ where: completed });
+    await prisma.inboundDeadLetter.deleteMany({ where: expired });
+
+    await this.releaseBlobs([...jobs, ...deadLetters].map(row => row.payload as unknown as QueuedEmail));
+
+    return count;
+  }
+
+  /**
+   * Lock a batch of due jobs. SKIP LOCKED lets several workers poll the same table
+   * without claiming the same job twice.
+   */
+  private static async claim(limit: number): Promise<InboundJob[]> {
+    const staleBefore = new Date(Date.now() - STALE_LOCK_MS);
+
+    const claimed = await prisma.$queryRaw<{ id: string }[]>`
+      UPDATE "inbound_jobs"
+      SET "status" = 'RUNNING', "lockedAt" = NOW(), "lockedBy" = ${WORKER_ID},
+          "attempts" = "attempts" + 1, "updatedAt" = NOW()
+      WHERE "id" IN (
+        SELECT "id" FROM "inbound_jobs"
+        WHERE ("status" = 'PENDING' AND "runAt" <= NOW())
+           OR ("status" = 'RUNNING' AND "lockedAt" < ${staleBefore})
+        ORDER BY "runAt" ASC
+        LIMIT ${limit}
+        FOR UPDATE SKIP LOCKED
+      )
+      RETURNING "id"
+    `;
+
+    if (claimed.length === 0) return [];
+
+    return prisma.inboundJob.findMany({
+      where: { id: { in: claimed.map(job => job.id) } },
+      orderBy: { runAt: 'asc' },
+    });
+  }
+
+  /**
+   * Run the pipeline for one job and record the outcome
+   */
+  private static async run(job: InboundJob): Promise<keyof WorkStats> {
+    const timings: StageTimings = { ...(job.timings as StageTimings | null) };
+    timings.queueWait = Date.now() - job.createdAt.getTime();
+
+    try {
+      const email = await this.load(job.payload as unknown as QueuedEmail);
+      const result = await EmailProcessor.process(email, timings);
+
+      // Another worker holds the delivery claim; come back once it has finished
+      if (result.status === 'processing') {
+        throw new Error('Delivery is being processed by another worker');
+      }
+
+      await prisma.inboundJob.update({
+        where: { id: job.id },
+        data: {
+          status: 'COMPLETED',
+          result,
+          timings,
+          completedAt: new Date(),
+          lockedAt: null,
+          lockedBy: null,
+        },
+      });
+
+      // Whatever the pipeline didn't store (unknown alias, blocked, over quota...) can go now
+      await this.releaseBlobs([job.payload as unknown as QueuedEmail]).catch(error => {
+        console.error(`Error releasing blobs of inbound job ${job.id}:`, error);
+      });
+
+      return 'processed';
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Unknown error';
+      console.error(`Inbound job ${job.id} failed (attempt ${job.attempts}/${job.maxAttempts}):`, error);
+
+      if (job.attempts >= job.maxAttempts) {
+        await prisma.$transaction([
+          prisma.inboundDeadLetter.create({
+            data: {
+              jobId: job.id,
+              source: job.source,
+              payload: job.payload as Prisma.InputJsonValue,
+              attempts: job.attempts,
+              lastError: message,
+              timings,
+            },
+          }),
+          prisma.inboundJob.delete({ where: { id: job.id } }),
+        ]);
+
+        return 'deadLettered';
+      }
+
+      await prisma.inboundJob.update({
+        where: { id: job.id },
+        data: {
+          status: 'PENDING',
+          runAt: new Date(Date.now() + this.backoff(job.attempts)),
+          lastError: message,
+          timings,
+          lockedAt: null,
+          lockedBy: null,
+        },
+      });
+
+      return 'retried';
+    }
+  }
+
+  /**
+   * Store the raw MIME (base64) by content hash, so a redelivery reuses the blob
+   */
+  private static async saveRawMime(rawMime: string, tx: Prisma.TransactionClient): Promise<string> {
+    const content = Buffer.from(rawMime, 'base64');
+    const sha256 = createHash('sha256').update(content).digest('hex');
+    const key = `inbound/${sha256.substring(0, 2)}/${sha256.substring(2, 4)}/${sha256}`;
+
+    await AttachmentStore.lock(key, tx);
+
+    const store = getBlobStore();
+    if (!(await store.exists(key))) {
+      await store.put(key, content, 'message/rfc822');
+    }
+
+    return key;
+  }
+
+  /**
+   * Delete the attachments and raw messages of finished jobs that nothing else needs:
+   * no stored message, and no job or dead letter still waiting to be processed
+   */
+  private static async releaseBlobs(payloads: QueuedEmail[]): Promise<void> {
+    await AttachmentStore.deleteUnreferenced(
+      payloads.flatMap(payload => (payload.attachments || []).map(attachment => attachment.sha256))
+    );
+
+    const store = getBlobStore();
+    const rawMimeKeys = payloads
+      .map(payload => payload.rawMimeKey)
+      .filter((key): key is string => Boolean(key));
+
+    for (const key of new Set(rawMimeKeys)) {
+      await prisma.$transaction(async tx => {
+        await AttachmentStore.lock(key, tx);
+
+        const reference = { payload: { path: ['rawMimeKey'], equals: key } };
+        const references =
+          await tx.inboundJob.count({ where: { status: { not: 'COMPLETED' }, ...reference } }) +
+          await tx.inboundDeadLetter.count({ where: { requeuedAt: null, ...reference } });
+
+        if (references === 0) {
+          await store.delete(key);
+        }
+      });
+    }
+  }
+
+  /**
+   * Rebuild the parsed message from a job payload, reading its content back from the blob store
+   */
+  private static async load(payload: QueuedEmail): Promise<ParsedEmail> {
+    const { attachments = [], rawMimeKey, ...message } = payload;
+
+    const loaded = await Promise.all(attachments.map(async ({ sha256, ...attachment }) => {
+      const content = await AttachmentStore.read(sha256);
+      if (!content) throw new Error(`Attachment ${sha256} is missing from the blob store`);
+      return { ...attachment, content: content.toString('base64') };
+    }));
+
+    let rawMime: string | undefined;
+    if (rawMimeKey) {
+      const content = await getBlobStore().get(rawMimeKey);
+      if (!content) throw new Error(`Raw message ${rawMimeKey} is missing from the blob store`);
+      rawMime = content.toString('base64');
+    }
+
+    return { ...message, attachments: loaded, rawMime };
+  }
+
+  /**
+   * Exponential backoff: 30s, 1m, 2m, 4m... capped at an hour
+   */
+  private static backoff(attempts: number): number {
+    return Math.min(BASE_BACKOFF_MS * 2 ** (attempts - 1), MAX_BACKOFF_MS);
+  }
+}
@@ -0,0 +1,223 @@
+/**
+ * Link Unwrapper Service
+ * Click-tracking redirectors hide where a link goes and report who clicked it. Links
+ * through a known redirector format are decoded offline to their destination (never by
+ * following them), and campaign/recipient tracking parameters are removed.
+ */
+
+import {
+  REDIRECTORS,
+  REDIRECTOR_HOST_PATTERNS,
+  REDIRECT_TARGET_PARAMS,
+  TRACKING_PARAMS,
+} from '@/lib/tracker-blocklist';
+
+// Type aliases (not interfaces) so rewrites can be stored as Prisma JSON
+export type LinkRewrite = {
+  original: string;
+  url: string;
+  redirectors: string[]; // Hosts of the redirectors that were unwrapped, outermost first
+  removedParams: string[];
+};
+
+// Wrappers nest (a Safe Links URL around an ESP click URL...); stop after this many
+const MAX_DEPTH = 5;
+
+const HTTP_URL = /^https?:\/\//i;
+
+const TEXT_URL = /https?:\/\/[^\s<>"'()]+/gi;
+
+export class LinkUnwrapper {
+  /**
+   * Clean destination of a link, or null when there is nothing to unwrap or remove
+   */
+  static unwrap(link: string): LinkRewrite | null {
+    let url: URL;
+    try {
+      url = new URL(link.trim());
+    } catch {
+      return null;
+    }
+
+    if (!['http:', 'https:'].includes(url.protocol)) return null;
+
+    const redirectors: string[] = [];
+
+    for (let depth = 0; depth < MAX_DEPTH; depth++) {
+      const target = this.decodeTarget(url);
+      if (!target) break;
+
+      redirectors.push(url.hostname.toLowerCase());
+      url = target;
+    }
+
+    const removedParams = this.stripTrackingParams(url);
+
+    if (redirectors.length === 0 && removedParams.length === 0) return null;
+
+    return {
+      original: link,
+      url: url.toString(),
+      redirectors,
+      removedParams,
+    };
+  }
+
+  /**
+   * Unwrap every URL in plain text
+   */
+  static rewriteText(text: string): { text: string; rewrites: LinkRewrite[] } {
+    const rewrites: LinkRewrite[] = [];
+
+    const rewritten = text.replace(TEXT_URL, match => {
+      // Sentence punctuation after a URL isn't part of it
+      const [, link, trailing] = match.match(/^(.*?)([.,;:!?]*)$/)!;
+      const rewrite = this.unwrap(link);
+      if (!rewrite) return match;
+
+      rewrites.push(rewrite);
+      return rewrite.url + trailing;
+    });
+
+    return { text: rewritten, rewrites };
+  }
+
+  /**
+   * One entry per original link, in first-seen order
+   */
+  static merge(...lists: LinkRewrite[][]): LinkRewrite[] {
+    const byOriginal = new Map<string, LinkRewrite>();
+    for (const rewrite of lists.flat()) {
+      if (!byOriginal.has(rewrite.original)) byOriginal.set(rewrite.original, rewrite);
+    }
+    return [...byOriginal.values()];
+  }
+
+  /**
+   * Destination of a link through a known redirector format, or null when the link isn't
+   * one. Only the format's own parameter or path is read, so an ordinary link that happens
+   * to carry a URL (a login page's ?next=, say) is never mistaken for a redirect.
+   */
+  private static decodeTarget(url: URL): URL | null {
+    const host = url.hostname.toLowerCase();
+
+    // Proofpoint URL Defense v2: u= with "-" for "%" and "_" for "/"
+    if (/(^|\.)urldefense(\.proofpoint)?\.com$/.test(host) && url.pathname.startsWith('/v2/')) {
+      const encoded = url.searchParams.get('u');
+      return encoded ? this.toHttpUrl(this.decodeComponent(encoded.replace(/-/g, '%').replace(/_/g, '/'))) : null;
+    }
+
+    // Proofpoint URL Defense v3: /v3/__<url>__;<checksum>, decodable when nothing was substituted
+    if (/(^|\.)urldefense\.com$/.test(host) && url.pathname.startsWith('/v3/__')) {
+      const match = url.href.match(/\/v3\/__(.+?)__;/);
+      return match && !match[1].includes('*') ? this.toHttpUrl(match[1]) : null;
+    }
+
+    const format = REDIRECTORS.find(redirector =>
+      (host === redirector.host || host.endsWith(`.${redirector.host}`)) && redirector.path.test(url.pathname)
+    );
+
+    if (format?.param) {
+      const value = url.searchParams.get(format.param);
+      return value ? this.decodeValue(value) : null;
+    }
+
+    if (format) {
+      return this.decodePath(url);
+    }
+
+    // Branded click hosts: the well-known target parameters only
+    if (REDIRECTOR_HOST_PATTERNS.some(pattern => pattern.test(host))) {
+      for (const name of REDIRECT_TARGET_PARAMS) {
+        const value = url.searchParams.get(name);
+        const target = value ? this.decodeValue(value) : null;
+        if (target) return target;
+      }
+    }
+
+    return null;
+  }
+
+  /**
+   * Target in a URL-encoded, base64 or base64 JSON path segment
+   */
+  private static decodePath(url: URL): URL | null {
+    for (const segment of url.pathname.split('/').filter(Boolean)) {
+      const target = this.decodeValue(this.decodeComponent(segment));
+      if (target) return target;
+
+      // Customer.io and others put a base64 JSON blob with the link in the path
+      const json = this.decodeBase64(segment);
+      if (json?.startsWith('{')) {
+        try {
+          const data = JSON.parse(json);
+          const href = data.href || data.url || data.link;
+          const decoded = typeof href === 'string' ? this.toHttpUrl(href) : null;
+          if (decoded) return decoded;
+        } catch {
+          // Not JSON after all
+        }
+      }
+    }
+
+    return null;
+  }
+
+  /**
+   * A parameter or path value that is, or encodes, an http(s) URL
+   */
+  private static decodeValue(value: string): URL | null {
+    let candidate = value.trim();
+
+    // Double URL-encoding is common when redirectors are chained
+    for (let i = 0; i < 2 && /^https?%3a/i.test(candidate); i++) {
+      candidate = this.decodeComponent(candidate);
+    }
+
+    if (HTTP_URL.test(candidate)) return this.toHttpUrl(candidate);
+
+    const decoded = this.decodeBase64(candidate);
+    return decoded && HTTP_URL.test(decoded) ? this.toHttpUrl(decoded) : null;
+  }
+
+  private static decodeBase64(value: string): string | null {
+    if (value.length < 12 || !/^[A-Za-z0-9+/_-]+={0,2}$/.test(value)) return null;
+
+    const decoded = Buffer.from(value.replace(/-/g, '+').replace(/_/g, '/'), 'base64').toString('utf8');
+    // Random tokens also decode; only printable results count
+    return /^[\x20-\x7e]+$/.test(decoded) ? decoded : null;
+  }
+
+  private static decodeComponent(value: string): string {
+    try {
+      return decodeURIComponent(value);
+    } catch {
+      return value;
+    }
+  }
+
+  private static toHttpUrl(value: string): URL | null {
+    try {
+      const url = new URL(value);
+      return ['http:', 'https:'].includes(url.protocol) ? url : null;
+    } catch {
+      return null;
+    }
+  }
+
+  /**
+   * Remove tracking parameters in place and return their names
+   */
+  private static stripTrackingParams(url: URL): string[] {
+    const removed = [...url.searchParams.keys()].filter(key => {
+      const name = key.toLowerCase();
+      return name.startsWith('utm_') || TRACKING_PARAMS.includes(name);
+    });
+
+    for (const key of new Set(removed)) {
+      url.searchParams.delete(key);
+    }
+
+    return [...new Set(removed)];
+  }
+}
@@ -0,0 +1,174 @@
+/**
+ * Mail Encryption Service
+ * Encrypts forwarded messages to a destination's OpenPGP public key (PGP/MIME, RFC 3156)
+ * or S/MIME certificate (RFC 8551 enveloped-data), and checks keys users upload
+ */
+
+import * as openpgp from 'openpgp';
+import forge from 'node-forge';
+import MimeNode from 'nodemailer/lib/mime-node';
+
+export type EncryptionType = 'PGP' | 'SMIME';
+
+export interface EncryptionKey {
+  type: EncryptionType;
+  key: string; // Armored OpenPGP public key or PEM certificate
+}
+
+export interface KeyInfo {
+  fingerprint: string; // Uppercase hex
+  expiresAt: Date | null; // null: never expires
+  identities: string[]; // PGP user IDs, or the certificate's email addresses and common name
+}
+
+// Headers that stay outside the encrypted part, because providers and clients need them
+export interface EnvelopeHeaders {
+  from: string;
+  to: string;
+  subject: string;
+  replyTo?: string;
+  headers?: Record<string, string>;
+}
+
+export class MailEncryption {
+  /**
+   * Parse an uploaded key or certificate and check it can be encrypted to.
+   * Throws with a message suitable for the user otherwise.
+   */
+  static async inspect({ type, key }: EncryptionKey): Promise<KeyInfo> {
+    return type === 'PGP' ? this.inspectPgpKey(key) : this.inspectCertificate(key);
+  }
+
+  /**
+   * Encrypt a complete MIME message (as built for sending) and wrap it in a new message
+   * carrying only the envelope headers. The original headers, body, attachments and
+   * banner are all inside the encrypted part.
+   */
+  static async encrypt(mime: Buffer, encryption: EncryptionKey, envelope: EnvelopeHeaders): Promise<Buffer> {
+    const info = await this.inspect(encryption);
+    if (info.expiresAt && info.expiresAt.getTime() < Date.now()) {
+      throw new Error(`Encryption key ${info.fingerprint} expired on ${info.expiresAt.toISOString()}`);
+    }
+
+    return encryption.type === 'PGP'
+      ? this.encryptPgp(mime, encryption.key, envelope)
+      : this.encryptSmime(mime, encryption.key, envelope);
+  }
+
+  private static async inspectPgpKey(armoredKey: string): Promise<KeyInfo> {
+    let key: openpgp.Key;
+    try {
+      key = await openpgp.readKey({ armoredKey });
+    } catch {
+      throw new Error('Not a valid armored OpenPGP public key');
+    }
+
+    // Never keep a secret key, even if one is pasted by mistake
+    if (key.isPrivate()) {
+      throw new Error('This is a private key. Upload the public key only.');
+    }
+
+    try {
+      await key.getEncryptionKey();
+    } catch {
+      throw new Error('The key has no valid encryption subkey (it may be revoked or expired)');
+    }
+
+    const expiration = await key.getExpirationTime();
+
+    return {
+      fingerprint: key.getFingerprint().toUpperCase(),
+      expiresAt: expiration instanceof Date ? expiration : null,
+      identities: key.getUserIDs(),
+    };
+  }
+
+  private static inspectCertificate(pem: string): KeyInfo {
+    let certificate: forge.pki.Certificate;
+    try {
+      certificate = forge.pki.certificateFromPem(pem);
+    } catch {
+      // forge only reads RSA certificates, which is also all it can encrypt to
+      throw new Error('Not a valid PEM certificate with an RSA key');
+    }
+
+    const der = forge.asn1.toDer(forge.pki.certificateToAsn1(certificate)).getBytes();
+    const altNames = (certificate.getExtension('subjectAltName') as { altNames?: { type: number; value: string }[] } | null)
+      ?.altNames || [];
+    const commonName = certificate.subject.getField('CN')?.value as string | undefined;
+
+    return {
+      fingerprint: forge.md.sha256.create().update(der).digest().toHex().toUpperCase(),
+      expiresAt: certificate.validity.notAfter,
+      identities: [
+        ...altNames.filter(name => name.type === 1).map(name => name.value), // rfc822Name
+        ...(commonName ? [commonName] : []),
+      ],
+    };
+  }
+
+  /**
+   * multipart/encrypted with the version part and the armored OpenPGP message
+   */
+  private static async encryptPgp(mime: Buffer, armoredKey: string, envelope: EnvelopeHeaders): Promise<Buffer> {
+    const encryptionKeys = await openpgp.readKey({ armoredKey });
+    const armored = await openpgp.encrypt({
+      message: await openpgp.createMessage({ binary: new Uint8Array(mime) }),
+      encryptionKeys,
+      format: 'armored',
+    });
+
+    const root = this.envelope(
+      new MimeNode('multipart/encrypted; protocol="application/pgp-encrypted"'),
+      envelope
+    );
+
+    root.createChild('application/pgp-encrypted')
+      .setHeader('Content-Description', 'PGP/MIME version identification')
+      .setHeader('Content-Transfer-Encoding', '7bit')
+      .setContent('Version: 1\r\n');
+
+    root.createChild('application/octet-stream; name="encrypted.asc"')
+      .setHeader('Content-Description', 'OpenPGP encrypted message')
+      .setHeader('Content-Disposition', 'inline; filename="encrypted.asc"')
+      .setHeader('Content-Transfer-Encoding', '7bit')
+      .setContent(armored as string);
+
+    return root.build();
+  }
+
+  /**
+   * application/pkcs7-mime enveloped-data, AES-256-CBC with the key wrapped for the certificate
+   */
+  private static async encryptSmime(mime: Buffer, pem: string, envelope: EnvelopeHeaders): Promise<Buffer> {
+    const envelopedData = forge.pkcs7.createEnvelopedData();
+    envelopedData.addRecipient(forge.pki.certificateFromPem(pem));
+    envelopedData.content = forge.util.createBuffer(mime.toString('binary'));
+    envelopedData.encrypt();
+
+    const der = forge.asn1.toDer(envelopedData.toAsn1()).getBytes();
+
+    const root = this.envelope(
+      new MimeNode('application/pkcs7-mime; smime-type=enveloped-data; name="smime.p7m"'),
+      envelope
+    );
+
+    root
+      .setHeader('Content-Disposition', 'attachment; filename="smime.p7m"')
+      .setHeader('Content-Description', 'S/MIME Encrypted Message')
+      .setContent(Buffer.from(der, 'binary'));
+
+    return root.build();
+  }
+
+  private static envelope(root: MimeNode, envelope: EnvelopeHeaders): MimeNode {
+    root.setHeader({
+      From: envelope.from,
+      To: envelope.to,
+      Subject: envelope.subject,
+      ...(envelope.replyTo ? { 'Reply-To': envelope.replyTo } : {}),
+      ...envelope.headers,
+    });
+    return root;
+  }
+}
@@ -0,0 +1,219 @@
+/**
+ * Reverse Alias Service
+ * Gives each correspondent of an alias a reply address (reply+<token>@relay). Forwards
+ * carry it as Reply-To, so the user's reply comes back through the relay and goes out
+ * from the alias instead of their real mailbox.
+ */
+
+import { randomBytes } from 'crypto';
+import { Prisma, type Alias, type ReverseAlias as ReverseAliasRecord } from '@prisma/client';
+import prisma from '@/lib/prisma';
+import { EmailForwarder, type ForwardResult } from '@/lib/services/email-forwarder';
+import { AddressParser } from '@/lib/services/address-parser';
+import { BounceHandler } from '@/lib/services/bounce-handler';
+import type { ParsedEmail } from '@/lib/services/email-parser';
+import type { SenderAuthResult } from '@/lib/services/sender-auth';
+
+export type ResolvedReverseAlias = ReverseAliasRecord & { alias: Alias };
+
+type DbClient = Prisma.TransactionClient | typeof prisma;
+
+// Headers that keep a reply in the correspondent's thread; everything else from the
+// user's mail client (User-Agent, Received, X-Originating-IP...) is dropped
+const THREAD_HEADERS: Record<string, string> = {
+  'in-reply-to': 'In-Reply-To',
+  'references': 'References',
+};
+
+const MESSAGE_ID = /<[^<>\s]+>/g;
+
+export class ReverseAlias {
+  /**
+   * Local part reserved on the relay domain for reply addresses
+   */
+  static readonly LOCAL_PART = 'reply';
+
+  /**
+   * Reply address for a correspondent of an alias, created on first use
+   */
+  static async addressFor(aliasId: string, correspondent: string, db: DbClient = prisma): Promise<string> {
+    const normalized = correspondent.toLowerCase();
+    const existing = await db.reverseAlias.findUnique({
+      where: { aliasId_correspondent: { aliasId, correspondent: normalized } },
+    });
+    if (existing) return this.address(existing.token);
+
+    try {
+      const created = await db.reverseAlias.create({
+        data: {
+          aliasId,
+          correspondent: normalized,
+          token: randomBytes(10).toString('hex'),
+        },
+      });
+      return this.address(created.token);
+    } catch (error) {
+      // Two forwards to the same correspondent raced; use the winner's token
+      if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+        const winner = await db.reverseAlias.findUniqueOrThrow({
+          where: { aliasId_correspondent: { aliasId, correspondent: normalized } },
+        });
+        return this.address(winner.token);
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Token of a reply address, or null if the address isn't one
+   */
+  static parse(address: string): string | null {
+    const [localPart, domain] = address.toLowerCase().split('@');
+    if (domain !== this.relayDomain()) return null;
+
+    const match = localPart?.match(/^reply\+([a-f0-9]+)$/);
+    return match ? match[1] : null;
+  }
+
+  /**
+   * Look up a reply address token with its alias
+   */
+  static async resolve(token: string, db: DbClient = prisma): Promise<ResolvedReverseAlias | null> {
+    return db.reverseAlias.findUnique({
+      where: { token },
+      include: { alias: true },
+    });
+  }
+
+  /**
+   * Only one of the alias's verified destinations may reply through the alias, and the
+   * message must authenticate as coming from it (DMARC or aligned DKIM), so a forged
+   * From can't use the alias to reach the correspondent
+   */
+  static isAuthorizedSender(destinations: string[], email: ParsedEmail, authentication: SenderAuthResult): boolean {
+    const sender = AddressParser.extractAddress(email.from);
+    return !!sender && destinations.includes(sender) && authentication.verified;
+  }
+
+  /**
+   * Send the user's reply to the correspondent from the alias
+   */
+  static async send(reverse: ResolvedReverseAlias, email: ParsedEmail): Promise<ForwardResult> {
+    const { alias } = reverse;
+    const aliasEmail = `${alias.localPart}@${alias.domain}`;
+    const sender = AddressParser.extractAddress(email.from) || '';
+
+    const result = await EmailForwarder.forward({
+      from: aliasEmail,
+      to: reverse.correspondent,
+      subject: email.subject || '(No subject)',
+      textBody: email.textBody && this.maskAddress(email.textBody, sender, aliasEmail),
+      htmlBody: email.htmlBody && this.maskAddress(email.htmlBody, sender, aliasEmail),
+      headers: await this.threadHeaders(email.headers, alias.id),
+      attachments: email.attachments?.map(att => ({
+        filename: att.filename,
+        content: att.content,
+        contentType: att.contentType,
+        size: att.size,
+      })),
+    });
+
+    if (result.success) {
+      await prisma.$transaction([
+        prisma.reverseAlias.update({
+          where: { id: reverse.id },
+          data: { lastUsedAt: new Date() },
+        }),
+        prisma.relayEvent.create({
+          data: {
+            aliasId: alias.id,
+            type: 'REPLIED',
+            fromAddress: aliasEmail,
+            toAddress: reverse.correspondent,
+            subject: email.subject,
+            metadata: {
+              messageId: result.messageId,
+              provider: result.provider,
+              reverseAliasId: reverse.id,
+              inboundMessageId: email.messageId, // Lets a rerun of the same delivery see it was sent
+            },
+          },
+        }),
+      ]);
+    }
+
+    return result;
+  }
+
+  private static address(token: string): string {
+    return `${this.LOCAL_PART}+${token}@${this.relayDomain()}`;
+  }
+
+  private static relayDomain(): string {
+    return (process.env.RELAY_DOMAIN || 'mail.zeroleak.app').toLowerCase();
+  }
+
+  /**
+   * Quoted text and signatures often repeat the user's real address
+   */
+  private static maskAddress(body: string, realAddress: string, aliasEmail: string): string {
+    if (!realAddress) return body;
+    const escaped = realAddress.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+    return body.replace(new RegExp(escaped, 'gi'), aliasEmail);
+  }
+
+  /**
+   * In-Reply-To and References of the reply. They quote the Message-ID of our forward,
+   * which the correspondent never saw, so those are swapped back to the Message-ID of
+   * the message they sent and the reply threads on their side.
+   */
+  private static async threadHeaders(
+    headers: ParsedEmail['headers'],
+    aliasId: string
+  ): Promise<Record<string, string> | undefined> {
+    if (!headers) return undefined;
+
+    const kept: Record<string, string> = {};
+    for (const [key, name] of Object.entries(THREAD_HEADERS)) {
+      const raw = headers[key];
+      // mailparser gives References as a list of message IDs
+      const value = Array.isArray(raw) ? raw.join(' ') : raw;
+      if (typeof value === 'string' && value.trim()) {
+        kept[name] = value.replace(/[\r\n]+/g, ' ').trim();
+      }
+    }
+
+    if (Object.keys(kept).length === 0) return undefined;
+
+    const quoted = [...new Set(Object.values(kept).flatMap(value => value.match(MESSAGE_ID) || []))]
+      .map(id => BounceHandler.normalizeMessageId(id)!);
+
+    const forwards = quoted.length === 0 ? [] : await prisma.forwardAttempt.findMany({
+      where: {
+        emailMessage: { aliasId },
+        OR: [
+          { headerMessageId: { in: quoted } },
+          { providerMessageId: { in: quoted } },
+        ],
+      },
+      select: {
+        headerMessageId: true,
+        providerMessageId: true,
+        emailMessage: { select: { messageId: true } },
+      },
+    });
+
+    const originals = new Map<string, string>();
+    for (const forward of forwards) {
+      const original = `<${BounceHandler.normalizeMessageId(forward.emailMessage.messageId)}>`;
+      if (forward.headerMessageId) originals.set(forward.headerMessageId, original);
+      if (forward.providerMessageId) originals.set(forward.providerMessageId, original);
+    }
+
+    for (const name of Object.keys(kept)) {
+      kept[name] = kept[name].replace(MESSAGE_ID, id => originals.get(BounceHandler.normalizeMessageId(id)!) || id);
+    }
+
+    return kept;
+  }
+}
@@ -3,19 +3,23 @@
  * Scans emails for phishing, malware, and suspicious content
  */
 
-interface SecurityScanResult {
+import type { SenderAuthResult } from '@/lib/services/sender-auth';
+import { LinkUnwrapper } from '@/lib/services/link-unwrapper';
+
+export interface SecurityScanResult {
   isSecure: boolean;
   threats: SecurityThreat[];
   score: number; // 0-100, higher = more secure
   recommendations: string[];
 }
 
-interface SecurityThreat {
+// A type alias (not an interface) so threats can be stored as Prisma JSON
+export type SecurityThreat = {
   type: 'phishing' | 'malware' | 'suspicious_link' | 'spoofed_sender' | 'data_theft';
   severity: 'low' | 'medium' | 'high' | 'critical';
   description: string;
   evidence: string;
-}
+};
 
 interface EmailData {
   fromAddress: string;
@@ -24,6 +28,7 @@ interface EmailData {
   htmlBody?: string;
   headers?: Record<string, any>;
   links?: string[];
+  authentication?: SenderAuthResult;
 }
 
 export class SecurityScanner {
@@ -143,7 +148,9 @@ export class SecurityScanner {
    */
   private static scanLinks(email: EmailData): SecurityThreat[] {
     const threats: SecurityThreat[] = [];
-    const links = this.extractLinks(email.htmlBody || email.textBody || '');
+    // Judge where a link really goes, not the click-tracking redirector in front of it
+    const links = this.extractLinks(email.htmlBody || email.textBody || '')
+      .map(link => LinkUnwrapper.unwrap(link)?.url || link);
 
     for (const link of links) {
       try {
@@ -212,7 +219,8 @@ export class SecurityScanner {
     const threats: SecurityThreat[] = [];
 
     // Check for display name / email mismatch
-    const displayName = email.headers?.['from']?.match(/^([^<]+)</)?.[1]?.trim();
+    const fromHeader = email.headers?.['from'];
+    const displayName = typeof fromHeader === 'string' ? fromHeader.match(/^([^<]+)</)?.[1]?.trim() : undefined;
     const actualEmail = email.fromAddress.toLowerCase();
 
     if (displayName) {
@@ -230,6 +238,23 @@ export class SecurityScanner {
       }
     }
 
+    // Failed sender authentication: the From address is likely forged
+    if (email.authentication?.dmarc === 'fail') {
+      threats.push({
+        type: 'spoofed_sender',
+        severity: 'high',
+        description: 'Sender failed DMARC authentication (From address may be forged)',
+        evidence: `spf=${email.authentication.spf} dkim=${email.authentication.dkim} dmarc=fail`,
+      });
+    } else if (email.authentication?.spf === 'fail' && email.authentication.dkim !== 'pass') {
+      threats.push({
+        type: 'spoofed_sender',
+        severity: 'medium',
+        description: 'Sender is not authorized to send for this domain (SPF fail, no valid DKIM)',
+        evidence: `spf=fail dkim=${email.authentication.dkim}`,
+      });
+    }
+
     // Check for lookalike characters in email
     if (/[0Oo1Il]/.test(actualEmail) && /paypal|amazon|apple/i.test(actualEmail)) {
       threats.push({
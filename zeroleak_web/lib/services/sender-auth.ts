@@ -0,0 +1,205 @@
+/**
+ * Sender Authentication Service
+ * Works out SPF, DKIM and DMARC verdicts for inbound mail: from the receiving provider's
+ * Authentication-Results/ARC headers when it added them, otherwise by verifying
+ * the raw message ourselves
+ */
+
+import { authenticate, type DNSResolver } from 'mailauth';
+import type { ParsedEmail } from '@/lib/services/email-parser';
+
+export type AuthVerdict = 'pass' | 'fail' | 'softfail' | 'neutral' | 'none' | 'temperror' | 'permerror' | 'policy';
+
+export type SenderAuthResult = {
+  spf: AuthVerdict;
+  dkim: AuthVerdict;
+  dmarc: AuthVerdict;
+  arc?: AuthVerdict;
+  dkimDomain?: string; // d= of the best DKIM signature
+  source: 'upstream' | 'local' | 'none';
+  verified: boolean; // DMARC pass, or a passing DKIM signature aligned with From
+};
+
+export type { DNSResolver };
+
+const VERDICTS: AuthVerdict[] = ['pass', 'fail', 'softfail', 'neutral', 'none', 'temperror', 'permerror', 'policy'];
+
+const UNAUTHENTICATED: SenderAuthResult = {
+  spf: 'none',
+  dkim: 'none',
+  dmarc: 'none',
+  source: 'none',
+  verified: false,
+};
+
+interface ParsedAuthResults {
+  authservId: string;
+  spf?: AuthVerdict;
+  dkim?: AuthVerdict;
+  dkimDomain?: string;
+  dmarc?: AuthVerdict;
+  arc?: AuthVerdict;
+}
+
+export class SenderAuth {
+  private static resolver?: DNSResolver;
+
+  /**
+   * Replace the DNS resolver used for local verification (tests stub DNS here)
+   * Pass nothing to go back to system DNS
+   */
+  static setResolver(resolver?: DNSResolver) {
+    this.resolver = resolver;
+  }
+
+  /**
+   * Authenticate the sender of a message
+   */
+  static async verify(email: ParsedEmail): Promise<SenderAuthResult> {
+    const fromDomain = email.from?.split('@')[1]?.toLowerCase();
+
+    // When we are the MX, any Authentication-Results header came from the sender: never trust it
+    if (!email.clientIp) {
+      const upstream = this.fromHeaders(email.headers);
+      if (upstream) {
+        return this.finalize({ ...UNAUTHENTICATED, ...upstream, source: 'upstream' }, fromDomain);
+      }
+    }
+
+    if (email.rawMime) {
+      return this.verifyLocally(email, fromDomain);
+    }
+
+    return UNAUTHENTICATED;
+  }
+
+  /**
+   * Parse a single Authentication-Results (or ARC-Authentication-Results) header value
+   * e.g. `mx.example.net; spf=pass smtp.mailfrom=a.com; dkim=pass header.d=a.com; dmarc=pass header.from=a.com`
+   */
+  static parseAuthenticationResults(value: string): ParsedAuthResults {
+    // Drop comments such as "(p=REJECT sp=REJECT dis=NONE)" before splitting on ';'
+    let text = value;
+    while (/\([^()]*\)/.test(text)) {
+      text = text.replace(/\([^()]*\)/g, ' ');
+    }
+
+    const [head, ...methods] = text.split(';');
+    // ARC-Authentication-Results starts with "i=1; authserv-id"
+    const authservId = /^\s*i=\d+\s*$/.test(head)
+      ? (methods.shift() || '').trim().split(/\s+/)[0]
+      : head.trim().split(/\s+/)[0];
+
+    const result: ParsedAuthResults = { authservId: authservId.toLowerCase() };
+
+    for (const method of methods) {
+      const match = method.match(/^\s*(spf|dkim|dmarc|arc)\s*=\s*([a-z]+)/i);
+      if (!match) continue;
+
+      const name = match[1].toLowerCase() as 'spf' | 'dkim' | 'dmarc' | 'arc';
+      const verdict = this.normalize(match[2]);
+
+      if (name === 'dkim') {
+        // Several signatures: a pass wins over anything else
+        if (!result.dkim || (verdict === 'pass' && result.dkim !== 'pass')) {
+          result.dkim = verdict;
+          result.dkimDomain = method.match(/header\.d\s*=\s*"?([^\s";]+)/i)?.[1]?.toLowerCase();
+        }
+      } else if (!result[name]) {
+        result[name] = verdict;
+      }
+    }
+
+    return result;
+  }
+
+  /**
+   * Use the receiving provider's verdicts. Only the topmost header is considered (that is the
+   * one our provider prepended), and its authserv-id must be in TRUSTED_AUTHSERV_IDS: anyone
+   * can write an Authentication-Results header, so without that list none is trusted.
+   */
+  private static fromHeaders(headers: ParsedEmail['headers']): Omit<SenderAuthResult, 'source' | 'verified'> | null {
+    if (!headers) return null;
+
+    const trusted = (process.env.TRUSTED_AUTHSERV_IDS || '')
+      .split(',')
+      .map(id => id.trim().toLowerCase())
+      .filter(Boolean);
+
+    if (trusted.length === 0) return null;
+
+    const candidates = [
+      ...this.headerValues(headers['authentication-results']).slice(0, 1),
+      ...this.headerValues(headers['arc-authentication-results']).slice(0, 1),
+    ];
+
+    for (const value of candidates) {
+      const parsed = this.parseAuthenticationResults(value);
+      if (!trusted.includes(parsed.authservId)) continue;
+      if (!parsed.spf && !parsed.dkim && !parsed.dmarc) continue;
+
+      return {
+        spf: parsed.spf || 'none',
+        dkim: parsed.dkim || 'none',
+        dmarc: parsed.dmarc || 'none',
+        arc: parsed.arc,
+        dkimDomain: parsed.dkimDomain,
+      };
+    }
+
+    return null;
+  }
+
+  /**
+   * Verify DKIM signatures, SPF and DMARC against DNS
+   */
+  private static async verifyLocally(email: ParsedEmail, fromDomain: string | undefined): Promise<SenderAuthResult> {
+    try {
+      const result = await authenticate(Buffer.from(email.rawMime!, 'base64'), {
+        ip: email.clientIp,
+        helo: email.helo,
+        sender: email.mailFrom,
+        // Without an SMTP session, take the client from the provider's Received header
+        trustReceived: !email.clientIp,
+        mta: process.env.RELAY_DOMAIN || 'mail.zeroleak.app',
+        resolver: this.resolver,
+        disableBimi: true,
+      });
+
+      const signatures = result.dkim?.results || [];
+      const best = signatures.find(sig => sig.status.result === 'pass') || signatures[0];
+
+      return this.finalize({
+        spf: result.spf ? this.normalize(result.spf.status.result) : 'none',
+        dkim: best ? this.normalize(best.status.result) : 'none',
+        dmarc: result.dmarc ? this.normalize(result.dmarc.status.result) : 'none',
+        arc: result.arc ? this.normalize(result.arc.status.result) : undefined,
+        dkimDomain: best?.signingDomain?.toLowerCase(),
+        source: 'local',
+        verified: false,
+      }, fromDomain);
+    } catch (error) {
+      console.error('Sender authentication failed:', error);
+      return { ...UNAUTHENTICATED, spf: 'temperror', dkim: 'temperror', dmarc: 'temperror', source: 'local' };
+    }
+  }
+
+  private static finalize(result: SenderAuthResult, fromDomain: string | undefined): SenderAuthResult {
+    const dkimAligned = result.dkim === 'pass' && !!result.dkimDomain && !!fromDomain &&
+      (fromDomain === result.dkimDomain || fromDomain.endsWith(`.${result.dkimDomain}`));
+
+    return { ...result, verified: result.dmarc === 'pass' || dkimAligned };
+  }
+
+  private static headerValues(value: unknown): string[] {
+    if (Array.isArray(value)) return value.filter((v): v is string => typeof v === 'string');
+    return typeof value === 'string' ? [value] : [];
+  }
+
+  private static normalize(result: string): AuthVerdict {
+    const value = result.toLowerCase();
+    if (value === 'temperr') return 'temperror';
+    if (value === 'hardfail') return 'fail';
+    return VERDICTS.includes(value as AuthVerdict) ? value as AuthVerdict : 'none';
+  }
+}
@@ -0,0 +1,155 @@
+/**
+ * SMTP Receiving Service
+ * Standalone SMTP listener that accepts mail for the relay domain and verified custom domains,
+ * so ZeroLeak can receive mail without a third-party inbound-parse webhook
+ */
+
+import { readFileSync } from 'fs';
+import { SMTPServer, type SMTPServerAddress, type SMTPServerDataStream, type SMTPServerSession } from 'smtp-server';
+import { EmailParser } from '@/lib/services/email-parser';
+import { EmailProcessor } from '@/lib/services/email-processor';
+import { CatchAll } from '@/lib/services/catch-all';
+import { ReverseAlias } from '@/lib/services/reverse-alias';
+import { Srs } from '@/lib/services/srs';
+import { InboundQueue } from '@/lib/services/inbound-queue';
+
+export interface SmtpReceiverOptions {
+  port: number;
+  host?: string;
+  hostname?: string;
+  maxMessageSize?: number; // bytes
+  tlsKeyPath?: string;
+  tlsCertPath?: string;
+}
+
+const DEFAULT_MAX_MESSAGE_SIZE = 25 * 1024 * 1024; // 25 MB
+
+/**
+ * Error carrying the SMTP reply code smtp-server sends back to the client
+ */
+class SmtpError extends Error {
+  constructor(message: string, public responseCode: number) {
+    super(message);
+    this.name = 'SmtpError';
+  }
+}
+
+export class SmtpReceiver {
+  /**
+   * Create (but don't start) an SMTP server wired to the processing pipeline
+   */
+  static create(options: SmtpReceiverOptions): SMTPServer {
+    const tls = options.tlsKeyPath && options.tlsCertPath
+      ? {
+          key: readFileSync(options.tlsKeyPath),
+          cert: readFileSync(options.tlsCertPath),
+        }
+      : {};
+
+    return new SMTPServer({
+      ...tls,
+      name: options.hostname,
+      banner: 'ZeroLeak Mail',
+      size: options.maxMessageSize || DEFAULT_MAX_MESSAGE_SIZE,
+      // Inbound MX: senders never authenticate, and STARTTLS needs a certificate
+      authOptional: true,
+      disabledCommands: tls.key ? ['AUTH'] : ['AUTH', 'STARTTLS'],
+      onRcptTo: (address, session, callback) => {
+        this.handleRcptTo(address)
+          .then(() => callback())
+          .catch(error => {
+            if (error instanceof SmtpError) return callback(error);
+            console.error('Error resolving SMTP recipient:', error);
+            callback(new SmtpError('Temporary lookup failure, try again later', 451));
+          });
+      },
+      onData: (stream, session, callback) => {
+        this.handleData(stream, session)
+          .then(() => callback())
+          .catch(error => callback(error));
+      },
+    });
+  }
+
+  /**
+   * Start listening; resolves once the port is bound
+   */
+  static async start(options: SmtpReceiverOptions): Promise<SMTPServer> {
+    const server = this.create(options);
+
+    server.on('error', error => {
+      console.error('SMTP server error:', error);
+    });
+
+    await new Promise<void>(resolve => {
+      server.listen(options.port, options.host, () => resolve());
+    });
+
+    return server;
+  }
+
+  /**
+   * Reject unknown domains and recipients before the client sends any data
+   */
+  private static async handleRcptTo(address: SMTPServerAddress): Promise<void> {
+    const recipient = address.address.toLowerCase();
+    const domain = recipient.split('@')[1];
+
+    if (!domain || !(await EmailProcessor.isAcceptedDomain(domain))) {
+      throw new SmtpError('Relay access denied', 554);
+    }
+
+    // Bounces of our forwards arrive at SRS addresses
+    if (Srs.isSrsAddress(recipient)) {
+      if (!Srs.reverse(recipient)) {
+        throw new SmtpError('No such user here', 550);
+      }
+      return;
+    }
+
+    const replyToken = ReverseAlias.parse(recipient);
+    if (replyToken) {
+      if (!(await ReverseAlias.resolve(replyToken))) {
+        throw new SmtpError('No such user here', 550);
+      }
+      return;
+    }
+
+    const alias = await EmailProcessor.findAlias(recipient);
+    if (!alias && !(await CatchAll.evaluate(recipient)).accepted) {
+      throw new SmtpError('No such user here', 550);
+    }
+  }
+
+  /**
+   * Parse the message and queue it for all accepted recipients
+   */
+  private static async handleData(stream: SMTPServerDataStream, session: SMTPServerSession): Promise<void> {
+    const chunks: Buffer[] = [];
+    for await (const chunk of stream) {
+      chunks.push(chunk as Buffer);
+    }
+
+    if (stream.sizeExceeded) {
+      throw new SmtpError('Message exceeds maximum size', 552);
+    }
+
+    const raw = Buffer.concat(chunks);
+
+    try {
+      const recipients = session.envelope.rcptTo.map(rcpt => rcpt.address);
+      const parseStart = performance.now();
+      const email = {
+        ...await EmailParser.parseRaw(raw, recipients),
+        clientIp: session.remoteAddress,
+        helo: session.hostNameAppearsAs,
+        mailFrom: session.envelope.mailFrom ? session.envelope.mailFrom.address : undefined,
+      };
+      await InboundQueue.enqueue(email, 'smtp', { parse: Math.round(performance.now() - parseStart) });
+    } catch (error) {
+      console.error('Error queueing SMTP message:', error);
+      // Temporary failure so the sending MTA retries later
+      throw new SmtpError('Temporary processing failure, try again later', 451);
+    }
+  }
+}
@@ -3,6 +3,8 @@
  * Analyzes emails for spam indicators and calculates a spam score
  */
 
+import type { SenderAuthResult } from '@/lib/services/sender-auth';
+
 interface SpamAnalysisResult {
   isSpam: boolean;
   score: number;
@@ -15,6 +17,7 @@ interface EmailData {
   textBody?: string;
   htmlBody?: string;
   headers?: Record<string, any>;
+  authentication?: SenderAuthResult;
 }
 
 const SPAM_THRESHOLD = 5.0;
@@ -72,9 +75,13 @@ export class SpamDetector {
     score += linkScore;
 
     // Check for suspicious headers
-    const headerScore = this.analyzeHeaders(email.headers, reasons);
+    const headerScore = this.analyzeHeaders(email.headers, email.authentication, reasons);
     score += headerScore;
 
+    // Check SPF/DKIM/DMARC verdicts
+    const authScore = this.analyzeAuthentication(email.authentication, reasons);
+    score = Math.max(0, score + authScore);
+
     return {
       isSpam: score >= SPAM_THRESHOLD,
       score,
@@ -159,7 +166,11 @@ export class SpamDetector {
     return 0;
   }
 
-  private static analyzeHeaders(headers: Record<string, any> | undefined, reasons: string[]): number {
+  private static analyzeHeaders(
+    headers: Record<string, any> | undefined,
+    authentication: SenderAuthResult | undefined,
+    reasons: string[]
+  ): number {
     if (!headers) return 0;
 
     let score = 0;
@@ -170,8 +181,8 @@ export class SpamDetector {
       reasons.push('Marked as spam by upstream filter');
     }
 
-    // Check for mismatched From and Return-Path
-    if (headers['from'] && headers['return-path']) {
+    // Check for mismatched From and Return-Path (normal for ESPs when the sender is authenticated)
+    if (headers['from'] && headers['return-path'] && !authentication?.verified) {
       const fromDomain = this.extractDomain(headers['from']);
       const returnDomain = this.extractDomain(headers['return-path']);
       if (fromDomain !== returnDomain) {
@@ -183,6 +194,35 @@ export class SpamDetector {
     return score;
   }
 
+  private static analyzeAuthentication(authentication: SenderAuthResult | undefined, reasons: string[]): number {
+    if (!authentication || authentication.source === 'none') return 0;
+
+    // An authenticated sender earns a small credit against content heuristics
+    if (authentication.verified) return -1.0;
+
+    let score = 0;
+
+    if (authentication.dmarc === 'fail') {
+      score += 3.0;
+      reasons.push('DMARC authentication failed');
+    }
+
+    if (authentication.spf === 'fail') {
+      score += 1.5;
+      reasons.push('SPF failed');
+    } else if (authentication.spf === 'softfail') {
+      score += 0.5;
+      reasons.push('SPF softfail');
+    }
+
+    if (authentication.dkim === 'fail') {
+      score += 1.0;
+      reasons.push('Invalid DKIM signature');
+    }
+
+    return score;
+  }
+
   private static calculateCapsRatio(text: string): number {
     const letters = text.replace(/[^a-zA-Z]/g, '');
     if (letters.length === 0) return 0;
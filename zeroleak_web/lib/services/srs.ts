@@ -0,0 +1,91 @@
+/**
+ * Sender Rewriting Scheme Service
+ * Rewrites the envelope sender of forwarded mail to an address on the relay domain
+ * (SRS0=hash=tt=domain=local@relay), so SPF checks the relay rather than the original
+ * sender, and bounces come back to us instead of going to the original sender
+ */
+
+import { createHmac, timingSafeEqual } from 'crypto';
+
+const BASE32 = 'abcdefghijklmnopqrstuvwxyz234567';
+
+// Rewritten addresses stop validating after this many days, so they can't be harvested for spam
+const MAX_AGE_DAYS = 21;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export class Srs {
+  /**
+   * Envelope sender for forwarding mail from `sender`. Undefined when SRS isn't configured
+   * or there is no sender to rewrite (bounces must keep the null sender).
+   */
+  static forward(sender: string | undefined | null): string | undefined {
+    const secret = process.env.SRS_SECRET;
+    const [local, domain] = (sender || '').toLowerCase().split(/@(?=[^@]*$)/);
+    if (!secret || !local || !domain) return undefined;
+
+    const timestamp = this.timestamp(Math.floor(Date.now() / DAY_MS));
+    const hash = this.hash(secret, timestamp, domain, local);
+
+    return `SRS0=${hash}=${timestamp}=${domain}=${local}@${this.relayDomain()}`;
+  }
+
+  /**
+   * Original sender of an SRS address, or null if it isn't one of ours, was tampered
+   * with or has expired. Matching is case-insensitive: recipients arrive lowercased.
+   */
+  static reverse(address: string): string | null {
+    const secret = process.env.SRS_SECRET;
+    if (!secret) return null;
+
+    const at = address.lastIndexOf('@');
+    if (at === -1 || address.substring(at + 1).toLowerCase() !== this.relayDomain()) return null;
+
+    const match = address.substring(0, at).match(/^srs0=([a-z2-7]{4})=([a-z2-7]{2})=([^=]+)=(.+)$/i);
+    if (!match) return null;
+
+    const [, hash, timestamp, domain, local] = match.map(part => part.toLowerCase());
+
+    const expected = this.hash(secret, timestamp, domain, local);
+    if (!timingSafeEqual(Buffer.from(expected), Buffer.from(hash))) return null;
+
+    if (this.ageInDays(timestamp) > MAX_AGE_DAYS) return null;
+
+    return `${local}@${domain}`;
+  }
+
+  /**
+   * Whether an address looks like an SRS address on the relay domain (valid or not)
+   */
+  static isSrsAddress(address: string): boolean {
+    const [local, domain] = address.toLowerCase().split(/@(?=[^@]*$)/);
+    return domain === this.relayDomain() && !!local?.startsWith('srs0=');
+  }
+
+  private static hash(secret: string, timestamp: string, domain: string, local: string): string {
+    const digest = createHmac('sha256', secret)
+      .update(`${timestamp}${domain}${local}`)
+      .digest();
+
+    // 4 base32 characters = 20 bits, as in the reference implementation's default
+    const bits = (digest[0] << 12) | (digest[1] << 4) | (digest[2] >> 4);
+    return [15, 10, 5, 0].map(shift => BASE32[(bits >> shift) & 31]).join('');
+  }
+
+  /**
+   * Day number modulo 1024, as two base32 characters
+   */
+  private static timestamp(day: number): string {
+    return BASE32[(day >> 5) & 31] + BASE32[day & 31];
+  }
+
+  private static ageInDays(timestamp: string): number {
+    const stamped = BASE32.indexOf(timestamp[0]) * 32 + BASE32.indexOf(timestamp[1]);
+    const today = Math.floor(Date.now() / DAY_MS) % 1024;
+    return (today - stamped + 1024) % 1024;
+  }
+
+  private static relayDomain(): string {
+    return (process.env.RELAY_DOMAIN || 'mail.zeroleak.app').toLowerCase();
+  }
+}
@@ -0,0 +1,308 @@
+/**
+ * Webhook Verification Service
+ * Authenticates inbound email webhooks before they reach the processing pipeline
+ * Supports Mailgun HMAC signatures, SendGrid signed webhooks, Postmark basic auth + IP allow-list,
+ * and a shared bearer secret for raw message/rfc822 posts
+ */
+
+import { createHash, createHmac, createPublicKey, timingSafeEqual, verify } from 'crypto';
+import { Prisma } from '@prisma/client';
+import prisma from '@/lib/prisma';
+
+export type InboundProvider = 'mailgun' | 'sendgrid' | 'postmark' | 'raw';
+
+export interface WebhookRequest {
+  provider: InboundProvider;
+  headers: Headers;
+  rawBody: Buffer;
+  formData?: FormData;
+  ipAddress?: string;
+}
+
+export interface VerificationResult {
+  verified: boolean;
+  provider: InboundProvider;
+  reason?: string;
+}
+
+// Signed webhooks older than this are rejected outright
+const MAX_TIMESTAMP_SKEW_SECONDS = 5 * 60;
+
+// Postmark's published webhook source addresses (override with POSTMARK_WEBHOOK_IPS)
+const POSTMARK_DEFAULT_IPS = [
+  '3.134.147.250',
+  '50.31.156.6',
+  '50.31.156.77',
+  '18.217.206.57',
+];
+
+export class WebhookVerifier {
+  /**
+   * Verify that a webhook request genuinely came from the given provider
+   */
+  static async verify(request: WebhookRequest): Promise<VerificationResult> {
+    switch (request.provider) {
+      case 'mailgun':
+        return this.verifyMailgun(request);
+      case 'sendgrid':
+        return this.verifySendGrid(request);
+      case 'postmark':
+        return this.verifyPostmark(request);
+      case 'raw':
+        return this.verifyRaw(request);
+      default:
+        return { verified: false, provider: request.provider, reason: 'Unknown provider' };
+    }
+  }
+
+  /**
+   * Mailgun signs `timestamp + token` with the webhook signing key (HMAC-SHA256)
+   */
+  private static async verifyMailgun(request: WebhookRequest): Promise<VerificationResult> {
+    const signingKey = process.env.MAILGUN_WEBHOOK_SIGNING_KEY;
+    if (!signingKey) {
+      return this.unconfigured('mailgun', 'MAILGUN_WEBHOOK_SIGNING_KEY');
+    }
+
+    // Inbound routes post form fields; event webhooks post JSON with a `signature` object
+    const fields = request.formData
+      ? {
+          timestamp: request.formData.get('timestamp') as string | null,
+          token: request.formData.get('token') as string | null,
+          signature: request.formData.get('signature') as string | null,
+        }
+      : this.mailgunJsonSignature(request.rawBody);
+    const { timestamp, token, signature } = fields;
+
+    if (!timestamp || !token || !signature) {
+      return { verified: false, provider: 'mailgun', reason: 'Missing signature fields' };
+    }
+
+    if (!this.isFreshTimestamp(timestamp)) {
+      return { verified: false, provider: 'mailgun', reason: 'Stale or invalid timestamp' };
+    }
+
+    const expected = createHmac('sha256', signingKey)
+      .update(timestamp + token)
+      .digest('hex');
+
+    if (!this.safeCompare(expected, signature)) {
+      return { verified: false, provider: 'mailgun', reason: 'Invalid signature' };
+    }
+
+    if (!(await this.consumeNonce('mailgun', token))) {
+      return { verified: false, provider: 'mailgun', reason: 'Replayed token' };
+    }
+
+    return { verified: true, provider: 'mailgun' };
+  }
+
+  private static mailgunJsonSignature(rawBody: Buffer): { timestamp: string | null; token: string | null; signature: string | null } {
+    try {
+      const { signature } = JSON.parse(rawBody.toString('utf8'));
+      return {
+        timestamp: signature?.timestamp ?? null,
+        token: signature?.token ?? null,
+        signature: signature?.signature ?? null,
+      };
+    } catch {
+      return { timestamp: null, token: null, signature: null };
+    }
+  }
+
+  /**
+   * SendGrid signs `timestamp + raw body` with ECDSA (P-256, SHA-256)
+   */
+  private static async verifySendGrid(request: WebhookRequest): Promise<VerificationResult> {
+    const publicKey = process.env.SENDGRID_WEBHOOK_VERIFICATION_KEY;
+    if (!publicKey) {
+      return this.unconfigured('sendgrid', 'SENDGRID_WEBHOOK_VERIFICATION_KEY');
+    }
+
+    const signature = request.headers.get('x-twilio-email-event-webhook-signature');
+    const timestamp = request.headers.get('x-twilio-email-event-webhook-timestamp');
+
+    if (!signature || !timestamp) {
+      return { verified: false, provider: 'sendgrid', reason: 'Missing signature headers' };
+    }
+
+    if (!this.isFreshTimestamp(timestamp)) {
+      return { verified: false, provider: 'sendgrid', reason: 'Stale or invalid timestamp' };
+    }
+
+    let valid = false;
+    try {
+      const key = createPublicKey({
+        key: Buffer.from(publicKey, 'base64'),
+        format: 'der',
+        type: 'spki',
+      });
+      valid = verify(
+        'sha256',
+        Buffer.concat([Buffer.from(timestamp), request.rawBody]),
+        { key, dsaEncoding: 'der' },
+        Buffer.from(signature, 'base64')
+      );
+    } catch (error) {
+      console.error('Error verifying SendGrid signature:', error);
+    }
+
+    if (!valid) {
+      return { verified: false, provider: 'sendgrid', reason: 'Invalid signature' };
+    }
+
+    // Not the signature itself: ECDSA signatures are malleable, so a replay could alter it
+    const nonce = `${timestamp}:${createHash('sha256').update(request.rawBody).digest('hex')}`;
+    if (!(await this.consumeNonce('sendgrid', nonce))) {
+      return { verified: false, provider: 'sendgrid', reason: 'Replayed signature' };
+    }
+
+    return { verified: true, provider: 'sendgrid' };
+  }
+
+  /**
+   * Postmark has no payload signature, so we require basic-auth credentials
+   * embedded in the webhook URL and a request from Postmark's address range.
+   * Postmark retries reuse the same payload, so duplicates are left to the
+   * processing pipeline rather than rejected here.
+   */
+  private static async verifyPostmark(request: WebhookRequest): Promise<VerificationResult> {
+    const username = process.env.POSTMARK_WEBHOOK_USERNAME;
+    const password = process.env.POSTMARK_WEBHOOK_PASSWORD;
+    if (!username || !password) {
+      return this.unconfigured('postmark', 'POSTMARK_WEBHOOK_USERNAME/POSTMARK_WEBHOOK_PASSWORD');
+    }
+
+    const authHeader = request.headers.get('authorization') || '';
+    const expected = `Basic ${Buffer.from(`${username}:${password}`).toString('base64')}`;
+
+    if (!this.safeCompare(expected, authHeader)) {
+      return { verified: false, provider: 'postmark', reason: 'Invalid credentials' };
+    }
+
+    const allowedIps = process.env.POSTMARK_WEBHOOK_IPS
+      ? process.env.POSTMARK_WEBHOOK_IPS.split(',').map(ip => ip.trim()).filter(Boolean)
+      : POSTMARK_DEFAULT_IPS;
+
+    if (!request.ipAddress || !allowedIps.includes(request.ipAddress)) {
+      return { verified: false, provider: 'postmark', reason: `IP not allowed: ${request.ipAddress || 'unknown'}` };
+    }
+
+    return { verified: true, provider: 'postmark' };
+  }
+
+  /**
+   * Raw message/rfc822 posts (custom MTAs, relays) authenticate with a bearer secret
+   */
+  private static async verifyRaw(request: WebhookRequest): Promise<VerificationResult> {
+    const secret = process.env.INBOUND_WEBHOOK_SECRET;
+    if (!secret) {
+      return this.unconfigured('raw', 'INBOUND_WEBHOOK_SECRET');
+    }
+
+    const authHeader = request.headers.get('authorization') || '';
+    if (!this.safeCompare(`Bearer ${secret}`, authHeader)) {
+      return { verified: false, provider: 'raw', reason: 'Invalid bearer token' };
+    }
+
+    return { verified: true, provider: 'raw' };
+  }
+
+  /**
+   * Missing secrets fail closed. Local development can opt out with
+   * ALLOW_UNVERIFIED_WEBHOOKS=true to exercise the webhook with curl; production never does.
+   */
+  private static unconfigured(provider: InboundProvider, setting: string): VerificationResult {
+    if (process.env.ALLOW_UNVERIFIED_WEBHOOKS !== 'true' || process.env.NODE_ENV === 'production') {
+      return { verified: false, provider, reason: `${setting} not configured` };
+    }
+
+    console.warn(`${setting} not configured, skipping ${provider} webhook verification`);
+    return { verified: true, provider };
+  }
+
+  private static isFreshTimestamp(timestamp: string): boolean {
+    const seconds = parseInt(timestamp, 10);
+    if (Number.isNaN(seconds)) return false;
+
+    const skew = Math.abs(Date.now() / 1000 - seconds);
+    return skew <= MAX_TIMESTAMP_SKEW_SECONDS;
+  }
+
+  private static safeCompare(expected: string, actual: string): boolean {
+    const a = Buffer.from(expected);
+    const b = Buffer.from(actual);
+    return a.length === b.length && timingSafeEqual(a, b);
+  }
+
+  /**
+   * Record a nonce; returns false if it has already been seen
+   */
+  private static async consumeNonce(provider: InboundProvider, nonce: string): Promise<boolean> {
+    const now = new Date();
+
+    // Opportunistically purge nonces that are past the replay window
+    await prisma.webhookNonce.deleteMany({
+      where: { expiresAt: { lt: now } },
+    });
+
+    try {
+      await prisma.webhookNonce.create({
+        data: {
+          provider,
+          nonce: `${provider}:${nonce}`,
+          expiresAt: new Date(now.getTime() + MAX_TIMESTAMP_SKEW_SECONDS * 2 * 1000),
+        },
+      });
+      return true;
+    } catch (error) {
+      if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+        return false;
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Work out which provider sent a webhook from its headers and body shape
+   */
+  static detectProvider(headers: Headers, body?: unknown): InboundProvider | null {
+    const contentType = headers.get('content-type') || '';
+
+    if (contentType.includes('message/rfc822')) {
+      return 'raw';
+    }
+
+    if (headers.has('x-twilio-email-event-webhook-signature')) {
+      return 'sendgrid';
+    }
+
+    if (contentType.includes('multipart/form-data') || contentType.includes('application/x-www-form-urlencoded')) {
+      return 'mailgun';
+    }
+
+    if (contentType.includes('application/json')) {
+      return Array.isArray(body) ? 'sendgrid' : 'postmark';
+    }
+
+    return null;
+  }
+
+  /**
+   * Client IP as seen by our own proxies. X-Forwarded-For is read from the right: each
+   * of the TRUSTED_PROXY_HOPS proxies (default 1) appends the address it saw, and
+   * anything further left was written by the client and can't be trusted.
+   */
+  static getClientIp(headers: Headers): string | undefined {
+    const hops = parseInt(process.env.TRUSTED_PROXY_HOPS || '1', 10);
+    const forwarded = headers.get('x-forwarded-for')
+      ?.split(',')
+      .map(entry => entry.trim())
+      .filter(Boolean);
+
+    if (forwarded?.length && hops > 0) {
+      return forwarded[Math.max(0, forwarded.length - hops)];
+    }
+    return headers.get('x-real-ip')?.trim() || undefined;
+  }
+}
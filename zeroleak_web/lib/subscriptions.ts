@@ -0,0 +1,197 @@
+/**
+ * Subscription Tiers
+ * Plan definitions and limit checks shared by the subscription API and the mail pipeline
+ */
+
+import type { Prisma, UserRole } from '@prisma/client';
+import prisma from '@/lib/prisma';
+
+type DbClient = Prisma.TransactionClient | typeof prisma;
+
+const BYTES_PER_GB = 1024 * 1024 * 1024;
+
+export interface SubscriptionTier {
+  name: string;
+  price: number;
+  features: string[];
+  limits: {
+    maxAliases: number;
+    emailStorage: number; // GB
+    historyDays: number;
+    dailySends: number; // New messages sent from aliases per UTC day
+    customDomains: boolean;
+    apiAccess: boolean;
+    prioritySupport: boolean;
+  };
+}
+
+export const SUBSCRIPTION_TIERS: Record<string, SubscriptionTier> = {
+  FREE: {
+    name: 'Free',
+    price: 0,
+    features: [
+      '10 active aliases',
+      'Basic breach detection',
+      '1 GB email storage',
+      '7-day email history',
+      'Send 20 emails/day from aliases',
+      'Community support',
+    ],
+    limits: {
+      maxAliases: 10,
+      emailStorage: 1,
+      historyDays: 7,
+      dailySends: 20,
+      customDomains: false,
+      apiAccess: false,
+      prioritySupport: false,
+    },
+  },
+  PREMIUM: {
+    name: 'Premium',
+    price: 9.99,
+    features: [
+      'Unlimited aliases',
+      'Real-time breach detection',
+      '50 GB email storage',
+      'Unlimited email history',
+      'Send 200 emails/day from aliases',
+      'Priority support',
+      'Custom domains',
+      'Advanced analytics',
+      'API access',
+    ],
+    limits: {
+      maxAliases: -1, // unlimited
+      emailStorage: 50,
+      historyDays: -1, // unlimited
+      dailySends: 200,
+      customDomains: true,
+      apiAccess: true,
+      prioritySupport: true,
+    },
+  },
+  BUSINESS: {
+    name: 'Business',
+    price: 29.99,
+    features: [
+      'Everything in Premium',
+      'Team management (10 users)',
+      '500 GB email storage',
+      'Send 1,000 emails/day from aliases',
+      'Custom branding',
+      'SSO integration',
+      'Compliance reporting',
+      'Dedicated support',
+      'SLA guarantee',
+    ],
+    limits: {
+      maxAliases: -1,
+      emailStorage: 500,
+      historyDays: -1,
+      dailySends: 1000,
+      customDomains: true,
+      apiAccess: true,
+      prioritySupport: true,
+    },
+  },
+};
+
+export type TierId = 'FREE' | 'PREMIUM' | 'BUSINESS';
+
+/**
+ * Map a user's role to their subscription tier
+ */
+export function getTierForRole(role: UserRole): TierId {
+  return role === 'ADMIN' ? 'BUSINESS' : role === 'PREMIUM' ? 'PREMIUM' : 'FREE';
+}
+
+/**
+ * Check if user has feature access
+ */
+export async function checkFeatureAccess(
+  userId: string,
+  feature: keyof SubscriptionTier['limits']
+): Promise<boolean> {
+  const user = await prisma.user.findUnique({
+    where: { id: userId },
+    select: { role: true },
+  });
+
+  if (!user) return false;
+
+  const tier = getTierForRole(user.role);
+  const limits = SUBSCRIPTION_TIERS[tier].limits;
+
+  return limits[feature] === true || limits[feature] === -1;
+}
+
+/**
+ * Check if user can create more aliases
+ */
+export async function canCreateAlias(userId: string, db: DbClient = prisma): Promise<boolean> {
+  const user = await db.user.findUnique({
+    where: { id: userId },
+    select: { role: true },
+  });
+
+  if (!user) return false;
+
+  const tier = getTierForRole(user.role);
+  const maxAliases = SUBSCRIPTION_TIERS[tier].limits.maxAliases;
+
+  if (maxAliases === -1) return true; // unlimited
+
+  const currentCount = await db.alias.count({
+    where: {
+      userId,
+      status: 'ACTIVE',
+    },
+  });
+
+  return currentCount < maxAliases;
+}
+
+/**
+ * Attachment storage used by a user, in bytes
+ */
+export async function getStorageUsage(userId: string, db: DbClient = prisma): Promise<number> {
+  const usage = await db.attachment.aggregate({
+    where: { userId },
+    _sum: { size: true },
+  });
+
+  return usage._sum.size || 0;
+}
+
+/**
+ * Storage allowance for a role in bytes (-1 = unlimited)
+ */
+export function getStorageLimit(role: UserRole): number {
+  const gigabytes = SUBSCRIPTION_TIERS[getTierForRole(role)].limits.emailStorage;
+  return gigabytes === -1 ? -1 : gigabytes * BYTES_PER_GB;
+}
+
+/**
+ * Messages a role may send from its aliases per UTC day (-1 = unlimited)
+ */
+export function getDailySendLimit(role: UserRole): number {
+  return SUBSCRIPTION_TIERS[getTierForRole(role)].limits.dailySends;
+}
+
+/**
+ * Messages a user has sent, or is sending, from their aliases since midnight UTC.
+ * Failed sends don't count against the limit.
+ */
+export async function getSendsToday(userId: string, db: DbClient = prisma): Promise<number> {
+  const startOfDay = new Date();
+  startOfDay.setUTCHours(0, 0, 0, 0);
+
+  return db.sentMessage.count({
+    where: {
+      userId,
+      sentAt: { gte: startOfDay },
+      status: { not: 'FAILED' },
+    },
+  });
+}
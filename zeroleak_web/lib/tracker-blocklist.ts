@@ -0,0 +1,134 @@
+/**
+ * Tracker Blocklist
+ * Hosts and URL paths of email open-tracking pixels and web beacons (used by the HTML
+ * sanitizer), and click-tracking redirector formats and tracking parameters (used by the
+ * link unwrapper). Add ESPs here as they are found; a host also matches its subdomains.
+ */
+
+// ESP open tracking, sales-engagement tools and web analytics beacons
+export const TRACKER_DOMAINS = [
+  // Email service providers
+  'list-manage.com', // Mailchimp
+  'mandrillapp.com', // Mandrill
+  'sendgrid.net',
+  'awstrack.me', // Amazon SES
+  'pstmrk.it', // Postmark
+  'mjt.lu', // Mailjet
+  'sendibt2.com', // Brevo
+  'sendibt3.com',
+  'sendibm1.com',
+  'sparkpostmail.com',
+  'spgo.io', // SparkPost
+  'exct.net', // Salesforce Marketing Cloud
+  'exacttarget.com',
+  'pardot.com',
+  'eloqua.com',
+  'mktoresp.com', // Marketo
+  'hubspotemail.net',
+  'track.hubspot.com',
+  'hs-analytics.net',
+  'customeriomail.com',
+  'trk.klaviyomail.com',
+  'trk.klaviyo.com',
+  'cmail19.com', // Campaign Monitor
+  'cmail20.com',
+  'rs6.net', // Constant Contact
+  'intercom-mail.com',
+  'emltrk.com', // Litmus
+  'returnpath.net',
+  'iterable.com',
+  'links.iterable.com',
+  'braze.com',
+  'sailthru.com',
+  'convertkit-mail.com',
+  'convertkit-mail2.com',
+  // Personal email trackers
+  'mailtrack.io',
+  'yesware.com',
+  'bananatag.com',
+  'getnotify.com',
+  'mailfoogae.appspot.com', // Streak
+  'mixmax.com',
+  'cirrusinsight.com',
+  'mailsuite.com',
+  'superhuman.com',
+  'saleshandy.com',
+  // Web analytics and ad beacons
+  'google-analytics.com',
+  'doubleclick.net',
+  'pixel.facebook.com',
+  'bat.bing.com',
+  'scorecardresearch.com',
+  'quantserve.com',
+  'omtrdc.net', // Adobe Analytics
+  'demdex.net',
+  'mixpanel.com',
+  'pixel.wp.com',
+];
+
+// Open-tracking endpoints recognisable by path, on ESP click domains or the sender's own host
+export const TRACKER_PATH_PATTERNS: RegExp[] = [
+  /\/(track|trk|tracking)\/(open|o)(\b|\/)/i,
+  /\/wf\/open/i, // SendGrid
+  /\/open\.(php|aspx|gif|png|jsp)/i,
+  /\/on\.jsp/i, // Constant Contact
+  /\/e\/o\//i, // Customer.io
+  /\/e2t\/to\//i, // HubSpot
+  /\/oo\//i, // Mailjet
+  /\/pixel(\.gif|\.png)?($|[/?])/i,
+  /\/beacon($|[/.?])/i,
+  /\/tr\/?\?/i, // Facebook
+];
+
+// How a redirector carries its target: in the named query parameter, or (without one)
+// in a URL-encoded, base64 or base64 JSON path segment
+export type RedirectorFormat = {
+  host: string; // Also matches subdomains
+  path: RegExp; // Only links on this path are unwrapped
+  param?: string;
+};
+
+// Redirectors whose target can be decoded from the link itself (Proofpoint URL Defense has
+// its own encoding and is handled by the unwrapper). Links on other paths of these hosts,
+// and links on any other host, are left alone.
+export const REDIRECTORS: RedirectorFormat[] = [
+  { host: 'google.com', path: /^\/url$/i, param: 'q' },
+  { host: 'youtube.com', path: /^\/redirect$/i, param: 'q' },
+  { host: 'l.facebook.com', path: /^\/l\.php$/i, param: 'u' },
+  { host: 'lm.facebook.com', path: /^\/l\.php$/i, param: 'u' },
+  { host: 'l.messenger.com', path: /^\/l\.php$/i, param: 'u' },
+  { host: 'safelinks.protection.outlook.com', path: /^\/?$/, param: 'url' },
+  { host: 'slack-redir.net', path: /^\/link$/i, param: 'url' },
+  { host: 'awstrack.me', path: /^\/L[01]\//i }, // Amazon SES: /L0/<URL-encoded target>/...
+  { host: 'customeriomail.com', path: /^\/e\/c\//i }, // Base64 JSON with the href
+];
+
+// Subdomains ESPs use for branded click tracking, e.g. click.shop.com or links.news.shop.com.
+// Only prefixes that are never the site itself: a login redirect on go.shop.com stays put.
+export const REDIRECTOR_HOST_PATTERNS: RegExp[] = [
+  /^(click|clicks|links|trk|elink|ablink)\./i,
+];
+
+// Query parameters a branded click host carries its target in, most specific first
+export const REDIRECT_TARGET_PARAMS = ['url', 'u', 'target'];
+
+// Query parameters that only identify the campaign or the recipient; utm_* is matched by prefix
+export const TRACKING_PARAMS = [
+  'mc_cid', 'mc_eid', // Mailchimp
+  '_hsenc', '_hsmi', '__hstc', '__hssc', '__hsfp', 'hsctatracking', // HubSpot
+  'mkt_tok', // Marketo
+  'fbclid', 'gclid', 'dclid', 'gbraid', 'wbraid', 'msclkid', 'yclid', 'twclid', 'ttclid', 'li_fat_id',
+  '_ga', '_gl',
+  'oly_enc_id', 'oly_anon_id', // Omeda
+  'vero_id', 'vero_conv',
+  'ck_subscriber_id', // ConvertKit
+  '_kx', // Klaviyo
+  'sc_cid', 's_cid', 'ef_id',
+  'ml_subscriber', 'ml_subscriber_hash', // MailerLite
+  'trk', 'trkcampaign', 'trkinfo',
+  'elqtrackid', 'elqtrack', 'elq', 'elqaid', 'elqat', 'elqcampaignid', // Eloqua
+  'sfmc_id', 'sfmc_sub', // Salesforce Marketing Cloud
+  'spmailingid', 'spuserid', 'spjobid', 'spreportid',
+  'rb_clickid', 'irclickid', 'cjevent',
+  'bsft_clkid', 'bsft_uid', 'bsft_mid', 'bsft_eid', // Blueshift
+];
@@ -5,6 +5,9 @@ const isPublicRoute = createRouteMatcher([
   '/sign-up(.*)',
   '/api/health(.*)',
   '/api/webhooks(.*)',
+  '/api/forwarding/destinations/verify(.*)',
+  '/api/image-proxy(.*)',
+  '/api/alias/kill/link(.*)',
   '/',
 ])
 
@@ -0,0 +1,45 @@
+/**
+ * Inbound Worker Entry Point
+ * Polls the inbound queue and runs the processing pipeline: `npm run worker`
+ */
+
+import { InboundQueue } from '@/lib/services/inbound-queue';
+import prisma from '@/lib/prisma';
+
+const POLL_INTERVAL_MS = parseInt(process.env.INBOUND_POLL_INTERVAL_MS || '2000', 10);
+const PURGE_INTERVAL_MS = 60 * 60 * 1000;
+
+let running = true;
+
+async function main() {
+  let lastPurge = 0;
+
+  while (running) {
+    try {
+      await InboundQueue.work({ batchSize: 10 });
+
+      if (Date.now() - lastPurge > PURGE_INTERVAL_MS) {
+        await InboundQueue.purgeCompleted();
+        lastPurge = Date.now();
+      }
+    } catch (error) {
+      console.error('Inbound worker error:', error);
+    }
+
+    await new Promise(resolve => setTimeout(resolve, POLL_INTERVAL_MS));
+  }
+
+  await prisma.$disconnect();
+}
+
+const shutdown = () => {
+  running = false;
+};
+
+process.on('SIGINT', shutdown);
+process.on('SIGTERM', shutdown);
+
+main().catch(error => {
+  console.error('Inbound worker crashed:', error);
+  process.exit(1);
+});
@@ -0,0 +1,35 @@
+/**
+ * SMTP Receiver Entry Point
+ * Runs the built-in SMTP listener as a standalone process: `npm run smtp`
+ */
+
+import { SmtpReceiver } from '@/lib/services/smtp-receiver';
+import prisma from '@/lib/prisma';
+
+async function main() {
+  const server = await SmtpReceiver.start({
+    port: parseInt(process.env.SMTP_PORT || '2525', 10),
+    host: process.env.SMTP_HOST,
+    hostname: process.env.SMTP_HOSTNAME || process.env.RELAY_DOMAIN,
+    maxMessageSize: process.env.SMTP_MAX_MESSAGE_SIZE
+      ? parseInt(process.env.SMTP_MAX_MESSAGE_SIZE, 10)
+      : undefined,
+    tlsKeyPath: process.env.SMTP_TLS_KEY,
+    tlsCertPath: process.env.SMTP_TLS_CERT,
+  });
+
+  const shutdown = () => {
+    server.close(async () => {
+      await prisma.$disconnect();
+      process.exit(0);
+    });
+  };
+
+  process.on('SIGINT', shutdown);
+  process.on('SIGTERM', shutdown);
+}
+
+main().catch(error => {
+  console.error('Failed to start SMTP receiver:', error);
+  process.exit(1);
+});